@@ -0,0 +1,106 @@
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { QAOAParams, VRPProblem, VRPSolution } from '@/lib/types';
+import { exportQAOACircuit, QasmVersion } from '@/lib/quantum/qasm';
+import { FileCode, Copy, Download } from 'lucide-react';
+
+interface CircuitExportDialogProps {
+  problem?: VRPProblem;
+  qaoaParams: QAOAParams;
+  quantumSolution?: VRPSolution;
+  disabled?: boolean;
+}
+
+const CircuitExportDialog: React.FC<CircuitExportDialogProps> = ({ problem, qaoaParams, quantumSolution, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [version, setVersion] = useState<QasmVersion>('2.0');
+
+  // Only build the program while the dialog is open; a failure shows in the dialog
+  const { program, error } = useMemo(() => {
+    if (!open || !problem) return { program: '', error: null };
+    try {
+      return { program: exportQAOACircuit(problem, qaoaParams, version, quantumSolution?.quantumMetrics), error: null };
+    } catch (err) {
+      return { program: '', error: err instanceof Error ? err.message : 'Failed to build the circuit.' };
+    }
+  }, [open, problem, qaoaParams, version, quantumSolution]);
+
+  const metrics = quantumSolution?.quantumMetrics;
+  const usesTunedAngles = metrics?.encoding === qaoaParams.encoding && metrics.gammas.length === qaoaParams.p;
+
+  const copyProgram = async () => {
+    await navigator.clipboard.writeText(program);
+    toast({
+      title: "Circuit Copied",
+      description: `OpenQASM ${version} program copied to the clipboard.`,
+    });
+  };
+
+  const downloadProgram = () => {
+    const blob = new Blob([program], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `qaoa_vrp_p${qaoaParams.p}.${version === '2.0' ? 'qasm' : 'qasm3'}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          className="w-full flex items-center justify-center gap-2"
+          variant="outline"
+          disabled={!problem || disabled}
+        >
+          <FileCode className="w-4 h-4" />
+          <span>Export Circuit</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export QAOA Circuit</DialogTitle>
+          <DialogDescription>
+            {usesTunedAngles
+              ? 'Angles tuned by the last QAOA run.'
+              : 'Linear-ramp starting angles; solve with QAOA first to export tuned angles.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={version} onValueChange={(value) => setVersion(value as QasmVersion)}>
+          <TabsList className="grid grid-cols-2">
+            <TabsTrigger value="2.0">OpenQASM 2.0</TabsTrigger>
+            <TabsTrigger value="3.0">OpenQASM 3.0</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Textarea
+          readOnly
+          value={program}
+          className="font-mono text-xs h-80"
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" className="flex items-center gap-2" onClick={copyProgram} disabled={!program}>
+            <Copy className="w-4 h-4" />
+            <span>Copy</span>
+          </Button>
+          <Button className="flex items-center gap-2" onClick={downloadProgram} disabled={!program}>
+            <Download className="w-4 h-4" />
+            <span>Download</span>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CircuitExportDialog;
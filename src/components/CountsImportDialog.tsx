@@ -0,0 +1,87 @@
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { QAOAParams, VRPProblem, VRPSolution } from '@/lib/types';
+import { parseCounts, solutionFromCounts } from '@/lib/quantum/counts';
+import { Upload } from 'lucide-react';
+
+interface CountsImportDialogProps {
+  problem?: VRPProblem;
+  qaoaParams: QAOAParams;
+  quantumSolution?: VRPSolution;
+  onImport: (solution: VRPSolution) => void;
+  disabled?: boolean;
+}
+
+const CountsImportDialog: React.FC<CountsImportDialogProps> = ({ problem, qaoaParams, quantumSolution, onImport, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Load a counts file into the text area
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setError(null);
+  };
+
+  const importCounts = () => {
+    if (!problem) return;
+
+    try {
+      const solution = solutionFromCounts(problem, parseCounts(text), qaoaParams, quantumSolution?.quantumMetrics);
+      onImport(solution);
+      setOpen(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import counts.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          className="w-full flex items-center justify-center gap-2"
+          variant="outline"
+          disabled={!problem || disabled}
+        >
+          <Upload className="w-4 h-4" />
+          <span>Import Counts</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Measured Counts</DialogTitle>
+          <DialogDescription>
+            Paste the JSON from Qiskit's result.get_counts(), or a CSV of bitstring,count lines,
+            measured on the circuit exported for this problem.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept=".json,.csv,.txt" onChange={handleFile} />
+
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={'{"010110": 412, "100101": 391, ...}'}
+          className="font-mono text-xs h-60"
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end">
+          <Button onClick={importCounts} disabled={!text.trim()}>
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CountsImportDialog;
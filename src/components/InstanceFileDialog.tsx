@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VRPProblem, VRPSolution } from '@/lib/types';
+import { parseVRP, parseSolution, writeVRP } from '@/lib/tsplib';
+import { SOLOMON_INSTANCES, loadSolomonInstance, parseSolomon } from '@/lib/solomon';
+import { FileText } from 'lucide-react';
+
+interface InstanceFileDialogProps {
+  problem?: VRPProblem;
+  onProblemLoaded: (problem: VRPProblem) => void;
+  onBestKnownLoaded: (solution: VRPSolution) => void;
+  disabled?: boolean;
+}
+
+const InstanceFileDialog: React.FC<InstanceFileDialogProps> = ({ problem, onProblemLoaded, onBestKnownLoaded, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [benchmark, setBenchmark] = useState<string>(Object.keys(SOLOMON_INSTANCES)[0]);
+  const [maxCustomers, setMaxCustomers] = useState<string>('');
+
+  // Load a file into the text area
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setError(null);
+  };
+
+  // Parse the text as an instance, Solomon's format told apart by its VEHICLE section,
+  // or against the current instance as a solution
+  const load = (kind: 'instance' | 'solution' | 'benchmark') => {
+    try {
+      if (kind === 'benchmark') {
+        onProblemLoaded(loadSolomonInstance(benchmark));
+      } else if (kind === 'instance') {
+        const solomon = /^\s*VEHICLE\s*$/im.test(text);
+        onProblemLoaded(solomon ? parseSolomon(text, Number(maxCustomers) || Infinity) : parseVRP(text));
+      } else if (problem) {
+        onBestKnownLoaded(parseSolution(text, problem));
+      }
+      setOpen(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to read the ${kind}.`);
+    }
+  };
+
+  const downloadInstance = () => {
+    if (!problem) return;
+
+    const blob = new Blob([writeVRP(problem)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${problem.name ?? `vrp_${problem.nodes.length}_nodes`}.vrp`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          className="w-full flex items-center justify-center gap-2"
+          variant="outline"
+          disabled={disabled}
+        >
+          <FileText className="w-4 h-4" />
+          <span>Benchmark Instances</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Benchmark Instances</DialogTitle>
+          <DialogDescription>
+            Load a TSPLIB/CVRPLIB .vrp instance such as the Augerat or Christofides sets, then its .sol file to
+            compare against the best-known solution, or a Solomon/Homberger VRPTW instance. The current problem
+            can be saved as a .vrp file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Bundled Solomon instances</Label>
+          <div className="flex gap-2">
+            <Select value={benchmark} onValueChange={setBenchmark}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select instance" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SOLOMON_INSTANCES).map(([name, instance]) => (
+                  <SelectItem key={name} value={name}>
+                    {name} (best known {instance.bestKnown.distance}, {instance.bestKnown.vehicles} vehicles)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => load('benchmark')}>
+              Load
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The first 25 customers of R101, C101 and RC101, distances truncated to one decimal as in the published optima
+          </p>
+        </div>
+
+        <Input type="file" accept=".vrp,.sol,.txt" onChange={handleFile} />
+
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={'NAME : A-n32-k5\nTYPE : CVRP\nDIMENSION : 32\n...'}
+          className="font-mono text-xs h-60"
+        />
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="maxCustomers" className="whitespace-nowrap">Solomon customers to keep</Label>
+          <Input
+            id="maxCustomers"
+            type="number"
+            min={1}
+            value={maxCustomers}
+            onChange={(event) => setMaxCustomers(event.target.value)}
+            placeholder="All"
+            className="w-24"
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={downloadInstance} disabled={!problem}>
+            Download .vrp
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => load('solution')} disabled={!problem || !text.trim()}>
+              Load Solution
+            </Button>
+            <Button onClick={() => load('instance')} disabled={!text.trim()}>
+              Load Instance
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InstanceFileDialog;
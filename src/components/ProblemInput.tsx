@@ -5,28 +5,59 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { QAOAParams, VRPProblem, Vehicle, Node, BackendType } from '@/lib/types';
-import { generateRandomDistanceMatrix, generateNodeCoordinates } from '@/lib/quantum/qubo';
+import { QAOAParams, VRPProblem, VRPSolution, Vehicle, Node, BackendType, OptimizerType, EncodingType, PenaltyStrategy, PenaltyFamily, ClassicalParams, ConstructionMethod, MetaheuristicType, SamplerType, AnnealerBackend, AnnealSchedule, CustomerLayout, DepotPlacement, GeoMetric } from '@/lib/types';
+import {
+  generateRandomDemands,
+  generateTravelTimeMatrix,
+  generateTimeWindows
+} from '@/lib/quantum/qubo';
+import { CUSTOMER_LAYOUTS, DEPOT_PLACEMENTS, MAX_GENERATED_NODES, VEHICLE_COLORS, generateInstance } from '@/lib/instances';
+import { defaultQAOAParams } from '@/lib/quantum/qaoa';
+import { getNoiseProfile, averageCalibration } from '@/lib/quantum/noise';
+import { MAX_STATEVECTOR_QUBITS } from '@/lib/quantum/statevector';
+import { ENCODING_NAMES } from '@/lib/quantum/encodings';
+import { SAMPLER_NAMES } from '@/lib/quantum/samplers';
+import { ANNEALER_BACKENDS, ANNEAL_SCHEDULES, isAnnealerBackend } from '@/lib/quantum/annealing';
+import { PENALTY_FAMILIES, PENALTY_STRATEGIES, PENALTY_SWEEP_SCALES } from '@/lib/quantum/penalties';
+import { CONSTRUCTION_NAMES, defaultClassicalParams } from '@/lib/solvers/classical';
+import { METAHEURISTIC_NAMES } from '@/lib/solvers/metaheuristics';
+import { createRandom, randomSeed } from '@/lib/random';
+import { GEO_METRICS, parseSitesCsv, parseSitesGeoJson, sitesToProblem } from '@/lib/geo';
+import { toast } from '@/components/ui/use-toast';
+import InstanceFileDialog from './InstanceFileDialog';
 
 interface ProblemInputProps {
+  problem?: VRPProblem;
   onProblemGenerated: (problem: VRPProblem) => void;
+  onBestKnownLoaded: (solution: VRPSolution) => void;
   onQAOAParamsChange: (params: QAOAParams) => void;
+  onClassicalParamsChange: (params: ClassicalParams) => void;
   isLoading: boolean;
 }
 
-const ProblemInput: React.FC<ProblemInputProps> = ({ onProblemGenerated, onQAOAParamsChange, isLoading }) => {
+const ProblemInput: React.FC<ProblemInputProps> = ({
+  problem,
+  onProblemGenerated,
+  onBestKnownLoaded,
+  onQAOAParamsChange,
+  onClassicalParamsChange,
+  isLoading
+}) => {
   // Problem parameters
   const [numNodes, setNumNodes] = useState<number>(6);
   const [numVehicles, setNumVehicles] = useState<number>(2);
+  const [withTimeWindows, setWithTimeWindows] = useState<boolean>(false);
+  const [layout, setLayout] = useState<CustomerLayout>('uniform');
+  const [depotPlacement, setDepotPlacement] = useState<DepotPlacement>('random');
+  const [seed, setSeed] = useState<number>(randomSeed);
+  const [geoMetric, setGeoMetric] = useState<GeoMetric>('haversine');
+  const [dragging, setDragging] = useState<boolean>(false);
   
   // QAOA parameters
-  const [qaoaParams, setQaoaParams] = useState<QAOAParams>({
-    p: 1,
-    backend: 'qasm_simulator',
-    shots: 1000
-  });
+  const [qaoaParams, setQaoaParams] = useState<QAOAParams>(defaultQAOAParams);
 
   // Update QAOA parameters
   const updateQAOAParams = (updates: Partial<QAOAParams>) => {
@@ -35,35 +66,104 @@ const ProblemInput: React.FC<ProblemInputProps> = ({ onProblemGenerated, onQAOAP
     onQAOAParamsChange(updatedParams);
   };
 
-  // Generate a new random problem
-  const generateProblem = () => {
-    // Generate random distance matrix
-    const distanceMatrix = generateRandomDistanceMatrix(numNodes);
+  // Classical solver parameters
+  const [classicalParams, setClassicalParams] = useState<ClassicalParams>(defaultClassicalParams);
+
+  const updateClassicalParams = (updates: Partial<ClassicalParams>) => {
+    const updatedParams = { ...classicalParams, ...updates };
+    setClassicalParams(updatedParams);
+    onClassicalParamsChange(updatedParams);
+  };
+
+  // Noise model of the selected backend, if it has one
+  const noiseProfile = getNoiseProfile(qaoaParams.backend);
+  const noiseCalibration = noiseProfile ? averageCalibration(noiseProfile) : null;
+  
+  // Annealer backends skip the circuit and its angle optimizer
+  const annealer = qaoaParams.sampler === 'qaoa' && isAnnealerBackend(qaoaParams.backend);
+
+  // Generate a random problem; the same seed and settings give the same problem
+  const generateProblem = (problemSeed: number) => {
+    const random = createRandom(problemSeed);
+    
+    // Generate node coordinates and the distances between them, with a demand per customer
+    const instance = generateInstance(numNodes, layout, depotPlacement, random);
+    const { distanceMatrix } = instance;
+    const demands = generateRandomDemands(numNodes, 9, random);
+    let nodes = instance.nodes.map((node, i) => ({ ...node, demand: demands[i] }));
     
-    // Generate node coordinates based on the distance matrix
-    const nodes = generateNodeCoordinates(distanceMatrix);
+    // Optional travel times and time windows (VRPTW)
+    const travelTimeMatrix = withTimeWindows ? generateTravelTimeMatrix(distanceMatrix, 0.3, random) : undefined;
+    if (travelTimeMatrix) {
+      const windows = generateTimeWindows(travelTimeMatrix, 60, 10, random);
+      nodes = nodes.map((node, i) => ({ ...node, ...windows[i] }));
+    }
+    
+    // Equal capacities with 25% headroom over an even split of the demand
+    const totalDemand = demands.reduce((sum, d) => sum + d, 0);
+    const capacity = Math.max(Math.ceil(1.25 * totalDemand / numVehicles), ...demands);
     
     // Create vehicles
-    const vehicleColors = ["#8B5CF6", "#0EA5E9", "#20E3B2", "#F59E0B", "#EF4444"];
     const vehicles: Vehicle[] = Array(numVehicles).fill(0).map((_, i) => ({
       id: i,
-      color: vehicleColors[i % vehicleColors.length]
+      capacity,
+      color: VEHICLE_COLORS[i % VEHICLE_COLORS.length]
     }));
     
-    const problem: VRPProblem = {
+    const newProblem: VRPProblem = {
       nodes,
       vehicles,
-      distanceMatrix
+      distanceMatrix,
+      travelTimeMatrix,
+      seed: problemSeed,
+      layoutStress: instance.layoutStress
     };
     
-    onProblemGenerated(problem);
+    onProblemGenerated(newProblem);
+  };
+  
+  // Build a problem from a CSV or GeoJSON file of sites, the first of them the depot
+  const importSites = async (file: File) => {
+    try {
+      const text = await file.text();
+      const geoJson = /\.(geo)?json$/i.test(file.name) || text.trimStart().startsWith('{');
+      const sites = geoJson ? parseSitesGeoJson(text) : parseSitesCsv(text);
+      onProblemGenerated(sitesToProblem(sites, geoMetric, numVehicles, file.name.replace(/\.[^.]+$/, '')));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import Error",
+        description: error instanceof Error ? error.message : "Failed to read the sites.",
+      });
+    }
+  };
+  
+  const handleSiteDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file && !isLoading) importSites(file);
+  };
+  
+  const handleSiteFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importSites(file);
+    event.target.value = '';
+  };
+  
+  // Draw a fresh seed for a new problem
+  const generateNewProblem = () => {
+    const problemSeed = randomSeed();
+    setSeed(problemSeed);
+    generateProblem(problemSeed);
   };
 
   return (
     <Tabs defaultValue="problem" className="w-full">
-      <TabsList className="grid grid-cols-2 mb-4">
+      <TabsList className="grid grid-cols-3 mb-4">
         <TabsTrigger value="problem">Problem Setup</TabsTrigger>
         <TabsTrigger value="quantum">Quantum Settings</TabsTrigger>
+        <TabsTrigger value="classical">Classical Settings</TabsTrigger>
       </TabsList>
 
       <TabsContent value="problem" className="space-y-4">
@@ -80,10 +180,14 @@ const ProblemInput: React.FC<ProblemInputProps> = ({ onProblemGenerated, onQAOAP
               <Slider
                 value={[numNodes]}
                 min={3}
-                max={15}
+                max={MAX_GENERATED_NODES}
                 step={1}
                 onValueChange={(value) => setNumNodes(value[0])}
               />
+              <p className="text-xs text-muted-foreground">
+                QAOA on the statevector simulator takes at most {MAX_STATEVECTOR_QUBITS} qubits; the classical
+                solvers, QUBO samplers and annealer backends have no such limit
+              </p>
             </div>
             
             <div className="space-y-2">
@@ -100,13 +204,132 @@ const ProblemInput: React.FC<ProblemInputProps> = ({ onProblemGenerated, onQAOAP
               />
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="layout">Customer Layout</Label>
+              <Select
+                value={layout}
+                onValueChange={(value) => setLayout(value as CustomerLayout)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="layout">
+                  <SelectValue placeholder="Select layout" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CUSTOMER_LAYOUTS) as CustomerLayout[]).map(option => (
+                    <SelectItem key={option} value={option}>{CUSTOMER_LAYOUTS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {layout === 'random-matrix' && 'Independent random edge lengths, drawn by multidimensional scaling'}
+                {layout === 'uniform' && 'Customers spread evenly over the square, Euclidean distances'}
+                {layout === 'clustered' && 'Customers gathered around two to four centres, Euclidean distances'}
+                {layout === 'mixed' && 'Half the customers spread evenly, half clustered, Euclidean distances'}
+              </p>
+            </div>
+            
+            {layout !== 'random-matrix' && (
+              <div className="space-y-2">
+                <Label htmlFor="depotPlacement">Depot</Label>
+                <Select
+                  value={depotPlacement}
+                  onValueChange={(value) => setDepotPlacement(value as DepotPlacement)}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id="depotPlacement">
+                    <SelectValue placeholder="Select depot placement" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DEPOT_PLACEMENTS) as DepotPlacement[]).map(option => (
+                      <SelectItem key={option} value={option}>{DEPOT_PLACEMENTS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
+            <div className="flex items-center justify-between">
+              <Label htmlFor="timeWindows">Time Windows</Label>
+              <Switch
+                id="timeWindows"
+                checked={withTimeWindows}
+                onCheckedChange={setWithTimeWindows}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="problemSeed">Seed</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="problemSeed"
+                  type="number"
+                  min={0}
+                  value={seed}
+                  onChange={(event) => setSeed(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+                  disabled={isLoading}
+                />
+                <Button variant="outline" onClick={() => generateProblem(seed)} disabled={isLoading}>
+                  Replay
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Replay rebuilds the problem from this seed and the settings above</p>
+            </div>
+            
             <Button 
               className="w-full bg-quantum-teal hover:bg-quantum-teal/90 text-quantum-dark font-medium mt-4"
-              onClick={generateProblem}
+              onClick={generateNewProblem}
               disabled={isLoading}
             >
               {isLoading ? "Processing..." : "Generate Random Problem"}
             </Button>
+            
+            <InstanceFileDialog
+              problem={problem}
+              onProblemLoaded={onProblemGenerated}
+              onBestKnownLoaded={onBestKnownLoaded}
+              disabled={isLoading}
+            />
+            
+            <div className="space-y-2">
+              <Label htmlFor="geoMetric">Site Distances</Label>
+              <Select
+                value={geoMetric}
+                onValueChange={(value) => setGeoMetric(value as GeoMetric)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="geoMetric">
+                  <SelectValue placeholder="Select metric" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GEO_METRICS) as GeoMetric[]).map(option => (
+                    <SelectItem key={option} value={option}>{GEO_METRICS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label
+                htmlFor="siteFile"
+                onDragOver={(event) => { event.preventDefault(); setDragging(true); }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={handleSiteDrop}
+                className={`block rounded-md border border-dashed p-4 text-center text-sm cursor-pointer ${
+                  dragging ? 'border-quantum-teal bg-quantum-teal/10' : 'border-border text-muted-foreground'
+                }`}
+              >
+                Drop a CSV or GeoJSON of sites here, or click to choose one
+                <input
+                  id="siteFile"
+                  type="file"
+                  accept=".csv,.geojson,.json"
+                  className="hidden"
+                  onChange={handleSiteFile}
+                  disabled={isLoading}
+                />
+              </label>
+              <p className="text-xs text-muted-foreground">
+                CSV columns id,name,lat,lon,demand or GeoJSON Points with name and demand properties; the first site
+                is the depot, distances are in km and the vehicle count comes from the slider above
+              </p>
+            </div>
           </CardContent>
         </Card>
       </TabsContent>
@@ -117,41 +340,243 @@ const ProblemInput: React.FC<ProblemInputProps> = ({ onProblemGenerated, onQAOAP
             <CardTitle className="text-lg font-medium">QAOA Parameters</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <Label>QAOA Layers (p)</Label>
-                <span className="text-sm font-medium">{qaoaParams.p}</span>
+            {qaoaParams.sampler === 'qaoa' && !annealer && (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>QAOA Layers (p)</Label>
+                  <span className="text-sm font-medium">{qaoaParams.p}</span>
+                </div>
+                <Slider
+                  value={[qaoaParams.p]}
+                  min={1}
+                  max={5}
+                  step={1}
+                  onValueChange={(value) => updateQAOAParams({ p: value[0] })}
+                  disabled={isLoading}
+                />
               </div>
-              <Slider
-                value={[qaoaParams.p]}
-                min={1}
-                max={5}
-                step={1}
-                onValueChange={(value) => updateQAOAParams({ p: value[0] })}
+            )}
+            
+            <div className="space-y-2">
+              <Label htmlFor="encoding">QUBO Encoding</Label>
+              <Select
+                value={qaoaParams.encoding}
+                onValueChange={(value) => updateQAOAParams({ encoding: value as EncodingType })}
                 disabled={isLoading}
-              />
+              >
+                <SelectTrigger id="encoding">
+                  <SelectValue placeholder="Select encoding" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ENCODING_NAMES) as EncodingType[]).map(encoding => (
+                    <SelectItem key={encoding} value={encoding}>{ENCODING_NAMES[encoding]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {qaoaParams.encoding === 'edge' && 'One qubit per directed edge and vehicle: n(n-1)v qubits'}
+                {qaoaParams.encoding === 'position' && 'One qubit per vehicle, customer and visit slot: v(n-1)² qubits'}
+                {qaoaParams.encoding === 'two-stage' && 'Assign customers to vehicles with (n-1)v qubits, then order each vehicle\'s k customers with k² qubits'}
+              </p>
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="backend">Quantum Backend</Label>
+              <Label htmlFor="penaltyStrategy">Penalty Strategy</Label>
               <Select
-                value={qaoaParams.backend}
-                onValueChange={(value) => updateQAOAParams({ backend: value as any })}
+                value={qaoaParams.penaltyStrategy}
+                onValueChange={(value) => updateQAOAParams({ penaltyStrategy: value as PenaltyStrategy })}
                 disabled={isLoading}
               >
-                <SelectTrigger id="backend">
-                  <SelectValue placeholder="Select backend" />
+                <SelectTrigger id="penaltyStrategy">
+                  <SelectValue placeholder="Select strategy" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="qasm_simulator">QASM Simulator</SelectItem>
-                  <SelectItem value="aer_simulator">Aer Simulator</SelectItem>
-                  <SelectItem value="ibmq_lima">IBM Quantum Lima</SelectItem>
-                  <SelectItem value="ibmq_belem">IBM Quantum Belem</SelectItem>
-                  <SelectItem value="ibmq_quito">IBM Quantum Quito</SelectItem>
+                  {(Object.keys(PENALTY_STRATEGIES) as PenaltyStrategy[]).map(strategy => (
+                    <SelectItem key={strategy} value={strategy}>{PENALTY_STRATEGIES[strategy]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                {qaoaParams.penaltyStrategy === 'fixed' && 'The same coefficient whatever the distances'}
+                {qaoaParams.penaltyStrategy === 'max-edge' && 'The most distance a single constraint violation could save'}
+                {qaoaParams.penaltyStrategy === 'sweep' &&
+                  `Tries ${PENALTY_SWEEP_SCALES.map(scale => `${scale}×`).join(', ')} the max-edge bound and keeps the most often feasible`}
+              </p>
             </div>
             
+            {qaoaParams.penaltyStrategy === 'fixed' && (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Penalty Coefficient</Label>
+                  <span className="text-sm font-medium">{qaoaParams.penalty}</span>
+                </div>
+                <Slider
+                  value={[qaoaParams.penalty]}
+                  min={10}
+                  max={500}
+                  step={10}
+                  onValueChange={(value) => updateQAOAParams({ penalty: value[0] })}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            
+            {(Object.keys(PENALTY_FAMILIES) as PenaltyFamily[]).map(family => (
+              <div key={family} className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>{PENALTY_FAMILIES[family]} Weight</Label>
+                  <span className="text-sm font-medium">{qaoaParams.penaltyMultipliers[family]}×</span>
+                </div>
+                <Slider
+                  value={[qaoaParams.penaltyMultipliers[family]]}
+                  min={0.25}
+                  max={4}
+                  step={0.25}
+                  onValueChange={(value) => updateQAOAParams({
+                    penaltyMultipliers: { ...qaoaParams.penaltyMultipliers, [family]: value[0] }
+                  })}
+                  disabled={isLoading}
+                />
+              </div>
+            ))}
+            
+            <div className="space-y-2">
+              <Label htmlFor="sampler">Sampler</Label>
+              <Select
+                value={qaoaParams.sampler}
+                onValueChange={(value) => updateQAOAParams({ sampler: value as SamplerType })}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="sampler">
+                  <SelectValue placeholder="Select sampler" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SAMPLER_NAMES) as SamplerType[]).map(sampler => (
+                    <SelectItem key={sampler} value={sampler}>{SAMPLER_NAMES[sampler]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {qaoaParams.sampler === 'qaoa' && 'Run the QAOA circuit or anneal on the selected quantum backend'}
+                {qaoaParams.sampler === 'annealing' && 'Each shot cools a random bitstring with Metropolis sweeps'}
+                {qaoaParams.sampler === 'tempering' && 'Replicas at eight temperatures swap states; shots read the coldest'}
+                {qaoaParams.sampler === 'greedy' && 'Each shot flips the best bit from a random bitstring until none helps'}
+              </p>
+            </div>
+            
+            {(qaoaParams.sampler === 'annealing' || qaoaParams.sampler === 'tempering') && (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>{qaoaParams.sampler === 'annealing' ? 'Sweeps per Shot' : 'Burn-in Sweeps'}</Label>
+                  <span className="text-sm font-medium">{qaoaParams.sweeps}</span>
+                </div>
+                <Slider
+                  value={[qaoaParams.sweeps]}
+                  min={10}
+                  max={1000}
+                  step={10}
+                  onValueChange={(value) => updateQAOAParams({ sweeps: value[0] })}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            
+            {qaoaParams.sampler === 'qaoa' && (
+              <div className="space-y-2">
+                <Label htmlFor="backend">Quantum Backend</Label>
+                <Select
+                  value={qaoaParams.backend}
+                  onValueChange={(value) => updateQAOAParams({ backend: value as BackendType })}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id="backend">
+                    <SelectValue placeholder="Select backend" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="qasm_simulator">QASM Simulator</SelectItem>
+                    <SelectItem value="aer_simulator">Aer Simulator</SelectItem>
+                    <SelectItem value="ibmq_lima">IBM Quantum Lima</SelectItem>
+                    <SelectItem value="ibmq_belem">IBM Quantum Belem</SelectItem>
+                    <SelectItem value="ibmq_quito">IBM Quantum Quito</SelectItem>
+                    {(Object.keys(ANNEALER_BACKENDS) as AnnealerBackend[]).map(backend => (
+                      <SelectItem key={backend} value={backend}>{ANNEALER_BACKENDS[backend]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {noiseProfile ? (
+                  <p className="text-xs text-muted-foreground">
+                    {noiseProfile.numQubits}-qubit {noiseProfile.processor} noise model:
+                    CX error {(noiseCalibration.cxError * 100).toFixed(2)}%,
+                    readout error {(noiseCalibration.readoutError * 100).toFixed(1)}%,
+                    T1 {noiseCalibration.t1.toFixed(0)} µs, T2 {noiseCalibration.t2.toFixed(0)} µs
+                  </p>
+                ) : annealer ? (
+                  <p className="text-xs text-muted-foreground">
+                    Path-integral Monte Carlo of a transverse-field anneal on the QUBO's Ising form
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Noiseless statevector sampling</p>
+                )}
+              </div>
+            )}
+            
+            {annealer && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="annealSchedule">Anneal Schedule</Label>
+                  <Select
+                    value={qaoaParams.annealSchedule}
+                    onValueChange={(value) => updateQAOAParams({ annealSchedule: value as AnnealSchedule })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="annealSchedule">
+                      <SelectValue placeholder="Select schedule" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ANNEAL_SCHEDULES) as AnnealSchedule[]).map(schedule => (
+                        <SelectItem key={schedule} value={schedule}>{ANNEAL_SCHEDULES[schedule]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {qaoaParams.annealSchedule === 'linear' && 'The transverse field falls at a constant rate'}
+                    {qaoaParams.annealSchedule === 'quadratic' && 'The field falls fast at first and slowly near the end'}
+                    {qaoaParams.annealSchedule === 'pause' && 'The field is held halfway for the middle third of the anneal'}
+                  </p>
+                </div>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Trotter Slices</Label>
+                    <span className="text-sm font-medium">{qaoaParams.trotterSlices}</span>
+                  </div>
+                  <Slider
+                    value={[qaoaParams.trotterSlices]}
+                    min={2}
+                    max={64}
+                    step={1}
+                    onValueChange={(value) => updateQAOAParams({ trotterSlices: value[0] })}
+                    disabled={isLoading}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Sweeps per Anneal</Label>
+                    <span className="text-sm font-medium">{qaoaParams.sweeps}</span>
+                  </div>
+                  <Slider
+                    value={[qaoaParams.sweeps]}
+                    min={10}
+                    max={1000}
+                    step={10}
+                    onValueChange={(value) => updateQAOAParams({ sweeps: value[0] })}
+                    disabled={isLoading}
+                  />
+                </div>
+              </>
+            )}
+            
             <div className="space-y-2">
               <Label htmlFor="shots">Number of Shots</Label>
               <Select
@@ -170,6 +595,210 @@ const ProblemInput: React.FC<ProblemInputProps> = ({ onProblemGenerated, onQAOAP
                 </SelectContent>
               </Select>
             </div>
+            
+            {qaoaParams.sampler === 'qaoa' && !annealer && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="optimizer">Angle Optimizer</Label>
+                  <Select
+                    value={qaoaParams.optimizer}
+                    onValueChange={(value) => updateQAOAParams({ optimizer: value as OptimizerType })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="optimizer">
+                      <SelectValue placeholder="Select optimizer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cobyla">COBYLA</SelectItem>
+                      <SelectItem value="nelder-mead">Nelder–Mead</SelectItem>
+                      <SelectItem value="spsa">SPSA</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Max Iterations</Label>
+                    <span className="text-sm font-medium">{qaoaParams.maxIterations}</span>
+                  </div>
+                  <Slider
+                    value={[qaoaParams.maxIterations]}
+                    min={10}
+                    max={200}
+                    step={10}
+                    onValueChange={(value) => updateQAOAParams({ maxIterations: value[0] })}
+                    disabled={isLoading}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="tolerance">Tolerance</Label>
+                  <Select
+                    value={String(qaoaParams.tolerance)}
+                    onValueChange={(value) => updateQAOAParams({ tolerance: parseFloat(value) })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="tolerance">
+                      <SelectValue placeholder="Select tolerance" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0.01">1e-2</SelectItem>
+                      <SelectItem value="0.001">1e-3</SelectItem>
+                      <SelectItem value="0.0001">1e-4</SelectItem>
+                      <SelectItem value="0.000001">1e-6</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            
+            <div className="space-y-2">
+              <Label htmlFor="quantumSeed">Seed</Label>
+              <Input
+                id="quantumSeed"
+                type="number"
+                min={0}
+                value={qaoaParams.seed}
+                onChange={(event) => updateQAOAParams({ seed: Math.max(0, Math.floor(Number(event.target.value) || 0)) })}
+                disabled={isLoading}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </TabsContent>
+      
+      <TabsContent value="classical" className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Classical Solver</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="construction">Construction Heuristic</Label>
+              <Select
+                value={classicalParams.construction}
+                onValueChange={(value) => updateClassicalParams({ construction: value as ConstructionMethod })}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="construction">
+                  <SelectValue placeholder="Select heuristic" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONSTRUCTION_NAMES) as ConstructionMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{CONSTRUCTION_NAMES[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {classicalParams.construction === 'greedy' && 'Vehicles take turns driving to the nearest unserved customer'}
+                {classicalParams.construction === 'savings-parallel' && 'Merge depot round trips by largest saving, growing all routes at once'}
+                {classicalParams.construction === 'savings-sequential' && 'Merge depot round trips by largest saving, growing one route at a time'}
+              </p>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="metaheuristic">Metaheuristic</Label>
+              <Select
+                value={classicalParams.metaheuristic}
+                onValueChange={(value) => updateClassicalParams({ metaheuristic: value as MetaheuristicType })}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="metaheuristic">
+                  <SelectValue placeholder="Select metaheuristic" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(METAHEURISTIC_NAMES) as MetaheuristicType[]).map(method => (
+                    <SelectItem key={method} value={method}>{METAHEURISTIC_NAMES[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {classicalParams.metaheuristic === 'none' && 'Keep the constructed routes'}
+                {classicalParams.metaheuristic === 'annealing' && 'Random moves, sometimes accepting worse routes while the temperature is high'}
+                {classicalParams.metaheuristic === 'tabu' && 'Best of a sample of moves, forbidding recently moved customers from moving back'}
+                {classicalParams.metaheuristic === 'alns' && 'Remove and reinsert customers, favouring the operators that find better routes'}
+              </p>
+            </div>
+            
+            {classicalParams.metaheuristic !== 'none' && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Time Budget</Label>
+                    <span className="text-sm font-medium">{classicalParams.timeLimit} s</span>
+                  </div>
+                  <Slider
+                    value={[classicalParams.timeLimit]}
+                    min={1}
+                    max={60}
+                    step={1}
+                    onValueChange={(value) => updateClassicalParams({ timeLimit: value[0] })}
+                    disabled={isLoading}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="classicalIterations">Iteration Cap</Label>
+                  <Select
+                    value={String(classicalParams.maxIterations)}
+                    onValueChange={(value) => updateClassicalParams({ maxIterations: parseInt(value) })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="classicalIterations">
+                      <SelectValue placeholder="Select iteration cap" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1000">1,000</SelectItem>
+                      <SelectItem value="10000">10,000</SelectItem>
+                      <SelectItem value="100000">100,000</SelectItem>
+                      <SelectItem value="1000000">1,000,000</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="classicalSeed">Seed</Label>
+                  <Input
+                    id="classicalSeed"
+                    type="number"
+                    min={0}
+                    value={classicalParams.seed}
+                    onChange={(event) => updateClassicalParams({ seed: Math.max(0, Math.floor(Number(event.target.value) || 0)) })}
+                    disabled={isLoading}
+                  />
+                </div>
+              </>
+            )}
+            
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="localSearch">Local Search</Label>
+                <Switch
+                  id="localSearch"
+                  checked={classicalParams.localSearch}
+                  onCheckedChange={(checked) => updateClassicalParams({ localSearch: checked })}
+                  disabled={isLoading}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                2-opt and Or-opt within routes, then relocate, swap and CROSS exchange between them, until no move helps
+              </p>
+            </div>
+            
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="polishQuantum">Polish Quantum Routes</Label>
+                <Switch
+                  id="polishQuantum"
+                  checked={classicalParams.polishQuantum}
+                  onCheckedChange={(checked) => updateClassicalParams({ polishQuantum: checked })}
+                  disabled={isLoading}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Run the same local search on the QAOA solution (hybrid QAOA + classical)
+              </p>
+            </div>
           </CardContent>
         </Card>
       </TabsContent>
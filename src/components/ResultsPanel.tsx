@@ -2,8 +2,15 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { VRPProblem, VRPSolution, BackendType } from '@/lib/types';
+import { VRPProblem, VRPSolution, QAOAParams, PenaltyFamily, Route, LowerBound } from '@/lib/types';
+import { routeLoad, vehicleCapacity, hasTimeWindows } from '@/lib/quantum/qubo';
 import { getQAOAMetrics } from '@/lib/quantum/qaoa';
+import { ENCODING_NAMES } from '@/lib/quantum/encodings';
+import { SAMPLER_NAMES } from '@/lib/quantum/samplers';
+import { ANNEAL_SCHEDULES } from '@/lib/quantum/annealing';
+import { PENALTY_FAMILIES, PENALTY_STRATEGIES } from '@/lib/quantum/penalties';
+import { LOCAL_SEARCH_OPERATORS } from '@/lib/solvers/localSearch';
+import { METAHEURISTIC_NAMES } from '@/lib/solvers/metaheuristics';
 import { Badge } from '@/components/ui/badge';
 import RouteComparisonPanel from './RouteComparisonPanel';
 
@@ -11,7 +18,10 @@ interface ResultsPanelProps {
   problem?: VRPProblem;
   quantumSolution?: VRPSolution;
   classicalSolution?: VRPSolution;
-  qaoaParams?: { p: number; backend: BackendType; shots: number };
+  optimum?: VRPSolution;
+  lowerBounds?: LowerBound[];
+  bestKnown?: VRPSolution;
+  qaoaParams?: QAOAParams;
   isLoading: boolean;
 }
 
@@ -19,6 +29,9 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
   problem, 
   quantumSolution, 
   classicalSolution,
+  optimum,
+  lowerBounds,
+  bestKnown,
   qaoaParams,
   isLoading 
 }) => {
@@ -38,8 +51,91 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
     return path.join(' → ');
   };
 
-  // Get mock QAOA metrics
-  const qaoa = qaoaParams ? getQAOAMetrics(qaoaParams) : null;
+  // Load carried against the vehicle's capacity
+  const formatLoad = (route: Route) => {
+    const load = routeLoad(route.path, problem);
+    const capacity = vehicleCapacity(route.vehicleId, problem);
+    return isFinite(capacity) ? `${load} / ${capacity}` : String(load);
+  };
+
+  const isOverloaded = (route: Route) => routeLoad(route.path, problem) > vehicleCapacity(route.vehicleId, problem);
+
+  // Arrival-departure at each stop, for VRPTW problems
+  const timeWindows = problem ? hasTimeWindows(problem) : false;
+  const formatSchedule = (route: Route) => route.schedule
+    .map(stop => `${stop.arrival.toFixed(0)}–${stop.departure.toFixed(0)}`)
+    .join(' → ');
+
+  // Get QAOA metrics recorded by the solver
+  const qaoa = getQAOAMetrics(quantumSolution);
+
+  // Scale a series of energies onto 0-100%, lowest energy at the top
+  const energyScale = (energies: number[]) => {
+    const min = Math.min(...energies);
+    const range = (Math.max(...energies) - min) || 1;
+    return (energy: number) => ((energy - min) / range) * 100;
+  };
+  const convergenceY = qaoa ? energyScale(qaoa.convergence.map(point => point.energy)) : null;
+  const layerHeight = qaoa ? energyScale(qaoa.layerExpectations.map(level => level.energy)) : null;
+  // Samples drawn by a classical sampler on the QUBO rather than the circuit
+  const classicalSampler = qaoa?.sampler && qaoa.sampler !== 'qaoa' ? qaoa.sampler : undefined;
+
+  // Distance each local search operator saved
+  const renderLocalSearch = (solution: VRPSolution) => solution.localSearch && (
+    <div className="px-4 pt-4 space-y-2">
+      <h3 className="text-sm font-medium">
+        Local Search: {formatDistance(solution.localSearch.initialDistance)} → {formatDistance(solution.localSearch.finalDistance)}
+        <span className="text-muted-foreground font-normal"> in {formatTime(solution.localSearch.executionTime)}</span>
+      </h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Operator</TableHead>
+            <TableHead className="text-right">Moves</TableHead>
+            <TableHead className="text-right">Saved</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {solution.localSearch.operators.map(({ operator, moves, saving }) => (
+            <TableRow key={operator}>
+              <TableCell>{LOCAL_SEARCH_OPERATORS[operator]}</TableCell>
+              <TableCell className="text-right">{moves}</TableCell>
+              <TableCell className="text-right">{saving.toFixed(1)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  // How the metaheuristic search went and, for ALNS, its operator weights
+  const renderMetaheuristic = (solution: VRPSolution) => {
+    const report = solution.metaheuristic;
+    if (!report) return null;
+    const last = report.trace[report.trace.length - 1];
+    return (
+      <div className="px-4 pt-4 space-y-2">
+        <h3 className="text-sm font-medium">
+          {METAHEURISTIC_NAMES[report.method]}: {formatDistance(report.trace[0].distance)} → {formatDistance(last.distance)}
+        </h3>
+        <p className="text-xs text-muted-foreground">
+          {report.iterations.toLocaleString()} iterations in {formatTime(report.elapsed)}
+          {report.stoppedBy === 'time' ? ' (time budget used up)' : ' (iteration cap reached)'},
+          seed {report.seed}; {report.trace.length - 1} improvements, the last at iteration {last.iteration.toLocaleString()}
+        </p>
+        {report.operatorWeights && (
+          <div className="grid grid-cols-5 gap-2 text-center text-xs">
+            {report.operatorWeights.map(({ operator, weight }) => (
+              <div key={operator} className="rounded-md p-2 bg-muted">
+                <div className="text-muted-foreground">{operator}</div>
+                <div className="font-medium">{weight.toFixed(2)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   // Loading or no data state
   const renderLoadingOrEmpty = () => (
@@ -87,6 +183,9 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
             problem={problem}
             quantumSolution={quantumSolution}
             classicalSolution={classicalSolution}
+            optimum={optimum}
+            lowerBounds={lowerBounds}
+            bestKnown={bestKnown}
             isLoading={isLoading}
           />
         </Card>
@@ -106,12 +205,21 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                 </TabsList>
                 
                 <TabsContent value="quantum-routes">
+                  {quantumSolution?.feasible === false && (
+                    <p className="px-4 pb-2 text-sm text-destructive">
+                      No sample decoded to a feasible solution; these are the routes of the lowest-energy sample,
+                      which miss customers or overload a vehicle.
+                    </p>
+                  )}
                   {quantumSolution ? (
                     <Table>
                       <TableHeader>
                         <TableRow>
                           <TableHead>Vehicle</TableHead>
                           <TableHead>Path</TableHead>
+                          <TableHead className="text-right">Load</TableHead>
+                          {timeWindows && <TableHead className="text-right">Wait</TableHead>}
+                          {timeWindows && <TableHead className="text-right">Late</TableHead>}
                           <TableHead className="text-right">Distance</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -129,7 +237,19 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                             </TableCell>
                             <TableCell className="font-mono text-xs">
                               {formatRouteString(route.path)}
+                              {timeWindows && route.schedule && (
+                                <div className="text-muted-foreground mt-1">{formatSchedule(route)}</div>
+                              )}
                             </TableCell>
+                            <TableCell className={`text-right ${isOverloaded(route) ? 'text-destructive' : ''}`}>
+                              {formatLoad(route)}
+                            </TableCell>
+                            {timeWindows && <TableCell className="text-right">{(route.waitingTime ?? 0).toFixed(1)}</TableCell>}
+                            {timeWindows && (
+                              <TableCell className={`text-right ${route.lateness ? 'text-destructive' : ''}`}>
+                                {(route.lateness ?? 0).toFixed(1)}
+                              </TableCell>
+                            )}
                             <TableCell className="text-right">{route.distance.toFixed(1)}</TableCell>
                           </TableRow>
                         ))}
@@ -140,6 +260,7 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                       <p className="text-muted-foreground">No quantum solution available</p>
                     </div>
                   )}
+                  {quantumSolution && renderLocalSearch(quantumSolution)}
                 </TabsContent>
                 
                 <TabsContent value="classical-routes">
@@ -149,6 +270,9 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                         <TableRow>
                           <TableHead>Vehicle</TableHead>
                           <TableHead>Path</TableHead>
+                          <TableHead className="text-right">Load</TableHead>
+                          {timeWindows && <TableHead className="text-right">Wait</TableHead>}
+                          {timeWindows && <TableHead className="text-right">Late</TableHead>}
                           <TableHead className="text-right">Distance</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -166,7 +290,19 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                             </TableCell>
                             <TableCell className="font-mono text-xs">
                               {formatRouteString(route.path)}
+                              {timeWindows && route.schedule && (
+                                <div className="text-muted-foreground mt-1">{formatSchedule(route)}</div>
+                              )}
+                            </TableCell>
+                            <TableCell className={`text-right ${isOverloaded(route) ? 'text-destructive' : ''}`}>
+                              {formatLoad(route)}
                             </TableCell>
+                            {timeWindows && <TableCell className="text-right">{(route.waitingTime ?? 0).toFixed(1)}</TableCell>}
+                            {timeWindows && (
+                              <TableCell className={`text-right ${route.lateness ? 'text-destructive' : ''}`}>
+                                {(route.lateness ?? 0).toFixed(1)}
+                              </TableCell>
+                            )}
                             <TableCell className="text-right">{route.distance.toFixed(1)}</TableCell>
                           </TableRow>
                         ))}
@@ -177,6 +313,8 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                       <p className="text-muted-foreground">No classical solution available</p>
                     </div>
                   )}
+                  {classicalSolution && renderMetaheuristic(classicalSolution)}
+                  {classicalSolution && renderLocalSearch(classicalSolution)}
                 </TabsContent>
               </Tabs>
             )}
@@ -193,31 +331,122 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
             {isLoading ? renderLoadingOrEmpty() : (
               qaoa ? (
                 <>
-                  <div className="space-y-2">
-                    <h3 className="text-sm font-medium">Energy Levels by QAOA Layer</h3>
-                    <div className="h-32 w-full bg-quantum-dark rounded-md p-4 flex items-end space-x-2">
-                      {qaoa.energyLevels.map((level, i) => (
-                        <div key={i} className="flex flex-col items-center flex-1">
-                          <div 
-                            className="w-full bg-quantum-purple rounded-t" 
-                            style={{ height: `${Math.abs(level.energy) * 4}px` }}
-                          ></div>
-                          <span className="text-xs mt-1">{level.layer}</span>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Qubits</span>
+                      <span className="font-medium">
+                        {qaoa.numQubits}
+                        {qaoa.routingQubits?.length ? ` + ${qaoa.routingQubits.join(', ')}` : ''}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Encoding</span>
+                      <span className="font-medium">{ENCODING_NAMES[qaoa.encoding]}</span>
+                    </div>
+                    {classicalSampler ? (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Sampler</span>
+                        <span className="font-medium">{SAMPLER_NAMES[classicalSampler]} ({qaoa.iterations} sweeps)</span>
+                      </div>
+                    ) : (
+                      <>
+                        {qaoa.anneal ? (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">Anneal</span>
+                            <span className="font-medium">
+                              {ANNEAL_SCHEDULES[qaoa.anneal.schedule]} ({qaoa.anneal.trotterSlices} slices, {qaoa.anneal.sweeps} sweeps)
+                            </span>
+                          </div>
+                        ) : (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">Optimizer</span>
+                            <span className="font-medium">{qaoa.optimizer ? `${qaoa.optimizer} (${qaoa.iterations} it.)` : 'External run'}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Backend</span>
+                          <span className="font-medium">
+                            {qaoa.source === 'imported' ? 'Imported counts' : `${qaoa.backend}${qaoa.noisy ? ' (noisy)' : ''}`}
+                          </span>
                         </div>
-                      ))}
+                      </>
+                    )}
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Ideal {'<H>'}</span>
+                      <span className="font-medium">
+                        {qaoa.layerExpectations[qaoa.layerExpectations.length - 1]?.energy.toFixed(2) ?? 'N/A'}
+                      </span>
                     </div>
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>Layer</span>
-                      <span>Energy (lower is better)</span>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Feasible Shots</span>
+                      <span className="font-medium">{(qaoa.feasibleFraction * 100).toFixed(1)}%</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Best Energy</span>
+                      <span className="font-medium">{qaoa.bestEnergy.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Measured Mean Energy</span>
+                      <span className="font-medium">{qaoa.meanEnergy.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">CVaR ({qaoa.cvarAlpha * 100}%)</span>
+                      <span className="font-medium">{qaoa.cvarEnergy.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Penalties (visit / flow / capacity)</span>
+                      <span className="font-medium" title={qaoa.penaltyStrategy ? PENALTY_STRATEGIES[qaoa.penaltyStrategy] : undefined}>
+                        {(Object.keys(PENALTY_FAMILIES) as PenaltyFamily[])
+                          .map(family => qaoa.penalties[family].toFixed(1))
+                          .join(' / ')}
+                      </span>
                     </div>
                   </div>
 
+                  {qaoa.penaltySweep && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium">Penalty Sweep (feasible shots of the untuned circuit)</h3>
+                      <div className="grid grid-cols-5 gap-2 text-center text-xs">
+                        {qaoa.penaltySweep.map(point => (
+                          <div
+                            key={point.scale}
+                            className={`rounded-md p-2 ${point.chosen ? 'bg-quantum-purple/20 border border-quantum-purple' : 'bg-muted'}`}
+                          >
+                            <div className="text-muted-foreground">{point.scale}× bound</div>
+                            <div className="font-medium">{(point.feasibleFraction * 100).toFixed(1)}%</div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {qaoa.layerExpectations.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium">Expectation Value by QAOA Layer</h3>
+                      <div className="h-32 w-full bg-quantum-dark rounded-md p-4 flex items-end space-x-2">
+                        {qaoa.layerExpectations.map((level) => (
+                          <div key={level.layer} className="flex flex-col items-center flex-1" title={level.energy.toFixed(2)}>
+                            <div 
+                              className="w-full bg-quantum-purple rounded-t" 
+                              style={{ height: `${(100 - layerHeight(level.energy)) * 0.7 + 10}px` }}
+                            ></div>
+                            <span className="text-xs mt-1">{level.layer}</span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Layer</span>
+                        <span>{'<H>'} (taller is lower)</span>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <h3 className="text-sm font-medium">Convergence Plot</h3>
                     <div className="h-32 w-full bg-quantum-dark rounded-md p-4 relative">
                       {qaoa.convergence.map((point, i) => {
-                        const x = (i / (qaoa.convergence.length - 1)) * 100;
-                        const y = 100 - (Math.abs(point.energy) / 10) * 100;
+                        const x = (i / Math.max(qaoa.convergence.length - 1, 1)) * 100;
+                        const y = convergenceY(point.energy);
                         const nextPoint = qaoa.convergence[i + 1];
                         
                         if (i === qaoa.convergence.length - 1) {
@@ -232,7 +461,7 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                         
                         if (nextPoint) {
                           const nextX = ((i + 1) / (qaoa.convergence.length - 1)) * 100;
-                          const nextY = 100 - (Math.abs(nextPoint.energy) / 10) * 100;
+                          const nextY = convergenceY(nextPoint.energy);
                           
                           return (
                             <svg
@@ -256,28 +485,45 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({
                       })}
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>Optimization Iterations</span>
-                      <span>Energy</span>
+                      <span>{classicalSampler || qaoa.anneal ? 'Sweeps' : 'Optimization Iterations'}</span>
+                      <span>
+                        {qaoa.convergence.length > 0
+                          ? `<H> = ${qaoa.convergence[qaoa.convergence.length - 1].energy.toFixed(2)}`
+                          : 'Energy'}
+                      </span>
                     </div>
                   </div>
 
                   <div className="space-y-2">
-                    <h3 className="text-sm font-medium">State Probability Distribution</h3>
-                    <div className="h-32 w-full bg-quantum-dark rounded-md p-4 flex items-end space-x-1">
-                      {qaoa.probabilities.map((prob, i) => (
-                        <div key={i} className="flex flex-col items-center flex-1">
-                          <div 
-                            className="w-full bg-quantum-blue rounded-t" 
-                            style={{ height: `${prob.prob * 100}px` }}
-                          ></div>
-                          <span className="text-[10px] mt-1 font-mono">{prob.state}</span>
-                        </div>
-                      ))}
-                    </div>
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>Bit String</span>
-                      <span>Probability</span>
-                    </div>
+                    <h3 className="text-sm font-medium">Most Frequent Bitstrings</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Bitstring</TableHead>
+                          <TableHead className="text-right">Count</TableHead>
+                          <TableHead className="text-right">QUBO E</TableHead>
+                          <TableHead className="text-right">Ising E</TableHead>
+                          <TableHead className="text-right">Distance</TableHead>
+                          <TableHead className="text-right">Feasible</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {qaoa.topSamples.map((sample) => (
+                          <TableRow key={sample.bitstring}>
+                            <TableCell className="font-mono text-[10px] break-all">{sample.bitstring}</TableCell>
+                            <TableCell className="text-right">{sample.count}</TableCell>
+                            <TableCell className="text-right">{sample.energy.toFixed(1)}</TableCell>
+                            <TableCell className="text-right">{sample.isingEnergy.toFixed(1)}</TableCell>
+                            <TableCell className="text-right">{sample.distance.toFixed(1)}</TableCell>
+                            <TableCell className="text-right">
+                              <Badge variant="outline" className={sample.feasible ? 'text-quantum-teal' : 'text-muted-foreground'}>
+                                {sample.feasible ? 'Yes' : 'No'}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
                   </div>
                 </>
               ) : (
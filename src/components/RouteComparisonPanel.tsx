@@ -2,13 +2,20 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { VRPProblem, VRPSolution } from '@/lib/types';
+import { VRPProblem, VRPSolution, LowerBound } from '@/lib/types';
 import { GitCompare, ArrowUp, ArrowDown } from 'lucide-react';
+import { EXACT_METHOD_NAMES } from '@/lib/solvers/exact';
+import { LOWER_BOUND_NAMES } from '@/lib/solvers/bounds';
+import { SAMPLER_NAMES } from '@/lib/quantum/samplers';
+import { isFeasibleSolution } from '@/lib/quantum/qubo';
 
 interface RouteComparisonPanelProps {
   problem?: VRPProblem;
   quantumSolution?: VRPSolution;
   classicalSolution?: VRPSolution;
+  optimum?: VRPSolution;
+  lowerBounds?: LowerBound[];
+  bestKnown?: VRPSolution;
   isLoading: boolean;
 }
 
@@ -16,6 +23,9 @@ const RouteComparisonPanel: React.FC<RouteComparisonPanelProps> = ({
   problem,
   quantumSolution,
   classicalSolution,
+  optimum,
+  lowerBounds,
+  bestKnown,
   isLoading
 }) => {
   // Format time in milliseconds
@@ -30,6 +40,32 @@ const RouteComparisonPanel: React.FC<RouteComparisonPanelProps> = ({
     return distance.toFixed(2);
   };
   
+  // Gaps are measured against the proven optimum if there is one, else a best-known
+  // solution loaded from file or published with the instance, else the strongest lower
+  // bound; an optimum that ignores time windows is a lower bound too
+  const provenOptimum = optimum?.exact && !optimum.exact.timeWindowsRelaxed ? optimum.totalDistance : undefined;
+  const bestKnownDistance = bestKnown?.totalDistance ?? problem?.bestKnown?.distance;
+  const bestBound = Math.max(...(lowerBounds ?? []).map(bound => bound.value), optimum?.totalDistance ?? -Infinity);
+  const reference = provenOptimum ?? bestKnownDistance ?? (isFinite(bestBound) ? bestBound : undefined);
+  const gapLabel = provenOptimum !== undefined
+    ? 'Optimality Gap'
+    : bestKnownDistance !== undefined ? 'Gap to BKS' : 'Gap to Bound';
+
+  // A solution that misses customers or overloads a vehicle has no meaningful gap and
+  // takes no part in the comparison
+  const isFeasible = (solution?: VRPSolution) =>
+    !!solution && solution.feasible !== false && !!problem && isFeasibleSolution(solution.routes, problem);
+  const quantumFeasible = isFeasible(quantumSolution);
+  const classicalFeasible = isFeasible(classicalSolution);
+
+  // Distance above the reference, in percent
+  const formatGap = (solution?: VRPSolution) => {
+    if (!solution || reference === undefined) return 'N/A';
+    if (!isFeasible(solution)) return 'infeasible';
+    const gap = (solution.totalDistance - reference) / (reference || 1) * 100;
+    return `${gap.toFixed(1)}%`;
+  };
+  
   // Loading or no data state
   const renderLoadingOrEmpty = () => (
     <div className="text-center py-12">
@@ -69,16 +105,37 @@ const RouteComparisonPanel: React.FC<RouteComparisonPanelProps> = ({
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Total Distance</span>
-              <span className="font-medium">{formatDistance(quantumSolution?.totalDistance)}</span>
+              <span className="font-medium">
+                {formatDistance(quantumSolution?.totalDistance)}
+                {quantumSolution && !quantumFeasible && <span className="text-destructive"> (infeasible)</span>}
+              </span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Execution Time</span>
               <span className="font-medium">{formatTime(quantumSolution?.executionTime)}</span>
             </div>
+            {reference !== undefined && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{gapLabel}</span>
+                <span className="font-medium">{formatGap(quantumSolution)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Backend</span>
-              <span className="font-medium">{quantumSolution?.solver || 'quantum'}</span>
+              <span className="font-medium">
+                {quantumSolution?.quantumMetrics?.source === 'imported'
+                  ? 'imported counts'
+                  : quantumSolution?.quantumMetrics?.sampler && quantumSolution.quantumMetrics.sampler !== 'qaoa'
+                    ? SAMPLER_NAMES[quantumSolution.quantumMetrics.sampler]
+                    : quantumSolution?.quantumMetrics?.backend || 'N/A'}
+              </span>
             </div>
+            {quantumSolution?.seed !== undefined && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Seed</span>
+                <span className="font-medium font-mono">{quantumSolution.seed}</span>
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -92,21 +149,97 @@ const RouteComparisonPanel: React.FC<RouteComparisonPanelProps> = ({
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Total Distance</span>
-              <span className="font-medium">{formatDistance(classicalSolution?.totalDistance)}</span>
+              <span className="font-medium">
+                {formatDistance(classicalSolution?.totalDistance)}
+                {classicalSolution && !classicalFeasible && <span className="text-destructive"> (infeasible)</span>}
+              </span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Execution Time</span>
               <span className="font-medium">{formatTime(classicalSolution?.executionTime)}</span>
             </div>
+            {reference !== undefined && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{gapLabel}</span>
+                <span className="font-medium">{formatGap(classicalSolution)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Algorithm</span>
-              <span className="font-medium">Greedy</span>
+              <span className="font-medium">{classicalSolution?.algorithm ?? 'Greedy'}</span>
             </div>
+            {classicalSolution?.seed !== undefined && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Seed</span>
+                <span className="font-medium font-mono">{classicalSolution.seed}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {optimum?.exact && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              {optimum.exact.timeWindowsRelaxed ? 'Optimum without time windows' : 'Proven optimum'}
+            </span>
+            <span className="font-medium">{formatDistance(optimum.totalDistance)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {EXACT_METHOD_NAMES[optimum.exact.method]} in {formatTime(optimum.executionTime)}:{' '}
+            {optimum.exact.states.toLocaleString()} DP states, {optimum.exact.routes.toLocaleString()} feasible routes
+            {optimum.exact.method === 'set-partitioning' &&
+              `, ${optimum.exact.nodes.toLocaleString()} branch-and-bound nodes (${optimum.exact.pruned.toLocaleString()} pruned)`}
+          </p>
+        </div>
+      )}
+
+      {bestKnown ? (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Best-known solution</span>
+            <span className="font-medium">{formatDistance(bestKnown.totalDistance)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {bestKnown.algorithm}, {bestKnown.routes.length} routes
+          </p>
+        </div>
+      ) : problem.bestKnown && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Published best-known</span>
+            <span className="font-medium">{formatDistance(problem.bestKnown.distance)}</span>
           </div>
+          <p className="text-xs text-muted-foreground">{problem.bestKnown.vehicles} routes</p>
         </div>
       )}
 
-      {(quantumSolution && classicalSolution) && (
+      {lowerBounds && (
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Lower Bounds</h3>
+          {lowerBounds.map(bound => (
+            <div key={bound.method} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">
+                {LOWER_BOUND_NAMES[bound.method]}
+                {bound.note && <span className="text-xs"> ({bound.note})</span>}
+              </span>
+              <span className={bound.value === bestBound ? 'font-semibold text-quantum-teal' : 'font-medium'}>
+                {formatDistance(bound.value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(quantumSolution && classicalSolution) && (!quantumFeasible || !classicalFeasible) && (
+        <p className="pt-4 text-sm text-muted-foreground">
+          {quantumFeasible ? 'The classical' : classicalFeasible ? 'The quantum' : 'Neither'} solution{' '}
+          {quantumFeasible || classicalFeasible ? 'is infeasible' : 'is feasible'}, so the distances are not compared.
+        </p>
+      )}
+
+      {(quantumSolution && classicalSolution && quantumFeasible && classicalFeasible) && (
         <>
           <div className="pt-4 space-y-2">
             <h3 className="text-sm font-medium flex items-center gap-1">
@@ -2,6 +2,7 @@
 import React, { useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Node, Route, VRPProblem } from '@/lib/types';
+import { routeLoad } from '@/lib/quantum/qubo';
 
 interface RouteVisualizationProps {
   problem?: VRPProblem;
@@ -112,24 +113,41 @@ const RouteVisualization: React.FC<RouteVisualizationProps> = ({ problem, routes
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
       ctx.fillText(index.toString(), x, y);
+      
+      // Demand and time window below the customer
+      if (!isDepot && node.demand !== undefined) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.font = '9px sans-serif';
+        ctx.fillText(`d=${node.demand}`, x, y + 16);
+      }
+      if (!isDepot && node.earliest !== undefined) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.font = '9px sans-serif';
+        ctx.fillText(`[${node.earliest}, ${node.latest}]`, x, y + 27);
+      }
     });
 
-    // Add legend for vehicles
+    // Add legend for vehicles, with each one's load against its capacity
     const legendY = height - 15;
     routes.forEach((route, index) => {
       const vehicle = problem.vehicles[route.vehicleId];
-      const x = width - margin - (routes.length - index) * 80;
+      const x = width - margin - (routes.length - index) * 130;
+      const load = routeLoad(route.path, problem);
       
       ctx.fillStyle = vehicle.color;
       ctx.beginPath();
       ctx.arc(x, legendY, 6, 0, 2 * Math.PI);
       ctx.fill();
       
-      ctx.fillStyle = '#FFFFFF';
+      ctx.fillStyle = load > (vehicle.capacity ?? Infinity) ? '#EF4444' : '#FFFFFF';
       ctx.font = '11px sans-serif';
       ctx.textAlign = 'left';
       ctx.textBaseline = 'middle';
-      ctx.fillText(`Vehicle ${vehicle.id}`, x + 10, legendY);
+      ctx.fillText(
+        vehicle.capacity !== undefined ? `Vehicle ${vehicle.id} (${load}/${vehicle.capacity})` : `Vehicle ${vehicle.id}`,
+        x + 10,
+        legendY
+      );
     });
 
   }, [problem, routes]);
@@ -154,6 +172,11 @@ const RouteVisualization: React.FC<RouteVisualizationProps> = ({ problem, routes
           <span>Route Visualization</span>
           <span className="text-xs text-muted-foreground">
             {problem.nodes.length} nodes, {problem.vehicles.length} vehicles
+            {problem.layoutStress !== undefined && (
+              <span title="Kruskal stress of the MDS layout: 0 draws every distance to scale, 0.2 or more is a rough picture">
+                , layout stress {problem.layoutStress.toFixed(3)}
+              </span>
+            )}
           </span>
         </CardTitle>
       </CardHeader>
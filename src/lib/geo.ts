@@ -0,0 +1,252 @@
+import { DistanceMatrix, GeoMetric, Node, Vehicle, VRPProblem } from './types';
+import { VEHICLE_COLORS } from './instances';
+
+export const GEO_METRICS: Record<GeoMetric, string> = {
+  haversine: 'Haversine (great circle)',
+  equirectangular: 'Equirectangular',
+  manhattan: 'Manhattan'
+};
+
+/** Mean radius of the earth in km */
+const EARTH_RADIUS = 6371.0088;
+
+export type Site = {
+  name?: string;
+  lat: number; // Degrees north
+  lon: number; // Degrees east
+  demand: number;
+};
+
+/**
+ * Split CSV text into rows of fields, honouring double-quoted fields with
+ * embedded commas, line breaks and doubled quotes
+ *
+ * @param text The CSV text
+ * @returns Non-empty rows, fields trimmed
+ */
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let k = 0; k < text.length; k++) {
+    const char = text[k];
+    if (quoted) {
+      if (char === '"' && text[k + 1] === '"') {
+        field += '"';
+        k++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(field.trim());
+      if (row.some(value => value)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(value => value)) rows.push(row);
+  return rows;
+}
+
+/**
+ * Number from a CSV cell or JSON value; NaN for a blank cell, null or any
+ * other non-numeric value, which Number would often turn into 0
+ *
+ * @param value The cell or value
+ * @returns The number
+ */
+function readNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim()) return Number(value);
+  return NaN;
+}
+
+/**
+ * Check a site's coordinates and demand
+ *
+ * @param site The site
+ * @param where Where the site came from, for error messages
+ * @returns The site
+ */
+function checkSite(site: Site, where: string): Site {
+  if (!isFinite(site.lat) || Math.abs(site.lat) > 90) throw new Error(`${where} has no valid latitude.`);
+  if (!isFinite(site.lon) || Math.abs(site.lon) > 180) throw new Error(`${where} has no valid longitude.`);
+  if (!isFinite(site.demand) || site.demand < 0) throw new Error(`${where} has a negative or unreadable demand.`);
+  return site;
+}
+
+/**
+ * Parse sites from CSV with a header row
+ *
+ * The lat and lon columns are required (latitude, longitude, lng and long
+ * are accepted too); name and demand are optional, and an id column is used
+ * as the name when there is no name. Demands default to 0.
+ *
+ * @param text The CSV text
+ * @returns The sites in file order
+ */
+export function parseSitesCsv(text: string): Site[] {
+  const [header, ...rows] = csvRows(text);
+  if (!header) throw new Error('The CSV file is empty.');
+
+  const columns = header.map(name => name.toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const lat = column('lat', 'latitude');
+  const lon = column('lon', 'lng', 'long', 'longitude');
+  const name = column('name');
+  const id = column('id');
+  const demand = column('demand');
+  if (lat === -1 || lon === -1) throw new Error('The CSV header needs lat and lon columns.');
+
+  return rows.map((row, k) => checkSite({
+    name: (name !== -1 && row[name]) || (id !== -1 && row[id]) || undefined,
+    lat: readNumber(row[lat]),
+    lon: readNumber(row[lon]),
+    demand: demand !== -1 && row[demand] ? Number(row[demand]) : 0
+  }, `Row ${k + 2}`));
+}
+
+/**
+ * Parse sites from a GeoJSON FeatureCollection of Points
+ *
+ * Each feature's name and demand are read from its properties; features
+ * that are not Points are rejected rather than silently dropped.
+ *
+ * @param text The GeoJSON text
+ * @returns The sites in feature order
+ */
+export function parseSitesGeoJson(text: string): Site[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The GeoJSON file is not valid JSON.');
+  }
+
+  const collection = data as { type?: string; features?: unknown[] };
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection.');
+  }
+
+  return collection.features.map((value, k) => {
+    const feature = value as {
+      geometry?: { type?: string; coordinates?: number[] };
+      properties?: { name?: unknown; id?: unknown; demand?: unknown } | null;
+    };
+    if (feature?.geometry?.type !== 'Point' || !Array.isArray(feature.geometry.coordinates)) {
+      throw new Error(`Feature ${k + 1} is not a Point.`);
+    }
+    // GeoJSON positions are longitude first
+    const [lon, lat] = feature.geometry.coordinates;
+    const properties = feature.properties ?? {};
+    const label = properties.name ?? properties.id;
+    return checkSite({
+      name: label !== undefined && label !== null ? String(label) : undefined,
+      lat: readNumber(lat),
+      lon: readNumber(lon),
+      demand: properties.demand !== undefined && properties.demand !== null ? Number(properties.demand) : 0
+    }, `Feature ${k + 1}`);
+  });
+}
+
+/**
+ * Distance in km between two sites
+ *
+ * - haversine: the great-circle distance
+ * - equirectangular: the straight line on a plate carrée projection centred
+ *   on the pair's mean latitude, close to haversine over city distances
+ * - manhattan: north-south plus east-west legs on that projection, a rough
+ *   model of a street grid aligned with the meridians
+ *
+ * @param a First site
+ * @param b Second site
+ * @param metric Which distance
+ * @returns The distance in km
+ */
+export function siteDistance(a: Site, b: Site, metric: GeoMetric): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  // Longitude difference the short way round the antimeridian
+  const dLon = toRadians(((b.lon - a.lon + 540) % 360) - 180);
+  const meanLat = toRadians((a.lat + b.lat) / 2);
+
+  switch (metric) {
+    case 'haversine': {
+      const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+      return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+    }
+    case 'equirectangular':
+      return EARTH_RADIUS * Math.hypot(dLat, dLon * Math.cos(meanLat));
+    case 'manhattan':
+      return EARTH_RADIUS * (Math.abs(dLat) + Math.abs(dLon * Math.cos(meanLat)));
+  }
+}
+
+/**
+ * Project sites onto a plane for drawing
+ *
+ * An equirectangular projection about the sites' mean latitude, in km from
+ * the first site, with north up on the canvas.
+ *
+ * @param sites The sites
+ * @returns One point per site
+ */
+export function projectSites(sites: Site[]): { x: number; y: number }[] {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const meanLat = sites.reduce((sum, site) => sum + site.lat, 0) / Math.max(sites.length, 1);
+  const origin = sites[0];
+  return sites.map(site => ({
+    x: EARTH_RADIUS * toRadians(((site.lon - origin.lon + 540) % 360) - 180) * Math.cos(toRadians(meanLat)),
+    y: -EARTH_RADIUS * toRadians(site.lat - origin.lat)
+  }));
+}
+
+/**
+ * Build a problem from sites, the first of them the depot
+ *
+ * Vehicles get equal capacities with 25% headroom over an even split of the
+ * demand, as for generated problems.
+ *
+ * @param sites The sites, depot first
+ * @param metric How distances are measured
+ * @param numVehicles Fleet size
+ * @param name Name of the problem, usually the file name
+ * @returns The problem, distances in km
+ */
+export function sitesToProblem(sites: Site[], metric: GeoMetric, numVehicles: number, name?: string): VRPProblem {
+  if (sites.length < 2) throw new Error('At least a depot and one customer are needed.');
+
+  const points = projectSites(sites);
+  const nodes: Node[] = sites.map((site, i) => ({
+    id: i,
+    x: points[i].x,
+    y: points[i].y,
+    label: site.name ?? (i === 0 ? 'Depot' : `Node ${i}`),
+    demand: i === 0 ? 0 : site.demand
+  }));
+
+  const distanceMatrix: DistanceMatrix = sites.map(a => sites.map(b => siteDistance(a, b, metric)));
+
+  const demands = nodes.map(node => node.demand ?? 0);
+  const totalDemand = demands.reduce((sum, d) => sum + d, 0);
+  const capacity = Math.max(Math.ceil(1.25 * totalDemand / numVehicles), ...demands, 1);
+  const vehicles: Vehicle[] = Array.from({ length: numVehicles }, (_, i) => ({
+    id: i,
+    capacity,
+    color: VEHICLE_COLORS[i % VEHICLE_COLORS.length]
+  }));
+
+  return { name, nodes, vehicles, distanceMatrix };
+}
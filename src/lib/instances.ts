@@ -0,0 +1,139 @@
+import { Node, DistanceMatrix, CustomerLayout, DepotPlacement } from './types';
+import { generateRandomDistanceMatrix, generateNodeCoordinates } from './quantum/qubo';
+import { layoutStress } from './layout';
+import { RandomSource, randomInt } from './random';
+
+export const CUSTOMER_LAYOUTS: Record<CustomerLayout, string> = {
+  'random-matrix': 'Random matrix',
+  uniform: 'Uniform',
+  clustered: 'Clustered',
+  mixed: 'Random-clustered'
+};
+
+export const DEPOT_PLACEMENTS: Record<DepotPlacement, string> = {
+  random: 'Random',
+  center: 'Central',
+  edge: 'Eccentric (corner)'
+};
+
+/** Route colours, assigned to vehicles in turn */
+export const VEHICLE_COLORS = ['#8B5CF6', '#0EA5E9', '#20E3B2', '#F59E0B', '#EF4444'];
+
+/**
+ * Most nodes a generated instance may have; only QAOA on the statevector
+ * simulator is bounded tighter, by its qubit limit
+ */
+export const MAX_GENERATED_NODES = 100;
+
+/** Side of the square customers are placed on */
+const GRID_SIZE = 100;
+
+/** Standard deviation of a customer cluster */
+const CLUSTER_SPREAD = GRID_SIZE / 15;
+
+/**
+ * Generate the nodes and distance matrix of a random instance
+ *
+ * Apart from the random-matrix layout, which keeps the independent edge
+ * lengths of the original generator and embeds them in the plane with MDS,
+ * the coordinates are drawn first and the distances are the Euclidean
+ * distances between them, so the matrix satisfies the triangle inequality
+ * and the map is drawn to scale.
+ *
+ * @param numNodes Number of nodes, depot included
+ * @param layout How customers are placed
+ * @param depot Where the depot is placed
+ * @param random Random source
+ * @returns Nodes with coordinates, node 0 the depot, their distance matrix,
+ * and for the random-matrix layout the stress of the embedding
+ */
+export function generateInstance(
+  numNodes: number,
+  layout: CustomerLayout,
+  depot: DepotPlacement,
+  random: RandomSource = Math.random
+): { nodes: Node[]; distanceMatrix: DistanceMatrix; layoutStress?: number } {
+  if (layout === 'random-matrix') {
+    const distanceMatrix = generateRandomDistanceMatrix(numNodes, GRID_SIZE, random);
+    const nodes = generateNodeCoordinates(distanceMatrix);
+    return { nodes, distanceMatrix, layoutStress: layoutStress(distanceMatrix, nodes) };
+  }
+
+  const nodes = generateCoordinates(numNodes, layout, depot, random);
+  return { nodes, distanceMatrix: euclideanDistanceMatrix(nodes) };
+}
+
+/**
+ * Place a depot and customers on a square
+ *
+ * - uniform: customers anywhere on the square with equal probability
+ * - clustered: two to four cluster centres placed uniformly, each customer
+ *   drawn from a Gaussian around one of them
+ * - mixed: half the customers uniform and half clustered
+ *
+ * The depot sits at a uniform random point, the centre, or the corner (0, 0).
+ *
+ * @param numNodes Number of nodes, depot included
+ * @param layout How customers are placed
+ * @param depot Where the depot is placed
+ * @param random Random source
+ * @returns Nodes with coordinates, node 0 the depot
+ */
+export function generateCoordinates(
+  numNodes: number,
+  layout: Exclude<CustomerLayout, 'random-matrix'>,
+  depot: DepotPlacement,
+  random: RandomSource = Math.random
+): Node[] {
+  const uniformPoint = () => ({ x: random() * GRID_SIZE, y: random() * GRID_SIZE });
+
+  const depotPoint = depot === 'center'
+    ? { x: GRID_SIZE / 2, y: GRID_SIZE / 2 }
+    : depot === 'edge'
+      ? { x: 0, y: 0 }
+      : uniformPoint();
+
+  const numCustomers = Math.max(numNodes - 1, 0);
+  const centres = Array.from({ length: Math.min(2 + randomInt(random, 3), Math.max(numCustomers, 1)) }, uniformPoint);
+  const clusteredPoint = () => {
+    const centre = centres[randomInt(random, centres.length)];
+    const clamp = (value: number) => Math.min(GRID_SIZE, Math.max(0, value));
+    return {
+      x: clamp(centre.x + CLUSTER_SPREAD * gaussian(random)),
+      y: clamp(centre.y + CLUSTER_SPREAD * gaussian(random))
+    };
+  };
+
+  const customers = Array.from({ length: numCustomers }, (_, k) => {
+    const clustered = layout === 'clustered' || (layout === 'mixed' && k % 2 === 1);
+    return clustered ? clusteredPoint() : uniformPoint();
+  });
+
+  return [depotPoint, ...customers].map((point, i) => ({
+    id: i,
+    x: point.x,
+    y: point.y,
+    label: i === 0 ? 'Depot' : `Node ${i}`
+  }));
+}
+
+/**
+ * Euclidean distance matrix of a set of nodes
+ *
+ * @param nodes Nodes with coordinates
+ * @returns A symmetric distance matrix
+ */
+export function euclideanDistanceMatrix(nodes: Node[]): DistanceMatrix {
+  return nodes.map(a => nodes.map(b => Math.hypot(a.x - b.x, a.y - b.y)));
+}
+
+/**
+ * Standard normal random number by the Box–Muller transform
+ *
+ * @param random Random source
+ * @returns A draw from N(0, 1)
+ */
+function gaussian(random: RandomSource): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,190 @@
+import { DistanceMatrix } from './types';
+
+export type Point = { x: number; y: number };
+
+const EPSILON = 1e-12;
+
+/**
+ * Symmetric copy of a distance matrix, averaging the two directions
+ *
+ * @param matrix The distance matrix
+ * @returns (d_ij + d_ji) / 2 for every pair
+ */
+function symmetrize(matrix: DistanceMatrix): number[][] {
+  return matrix.map((row, i) => row.map((d, j) => (i === j ? 0 : (d + matrix[j][i]) / 2)));
+}
+
+/**
+ * Classical (Torgerson) multidimensional scaling into the plane
+ *
+ * Double-centres the squared distances, B = -1/2 J D² J, and places the
+ * points along the two leading eigenvectors of B scaled by the square roots
+ * of their eigenvalues. For distances between points in the plane this
+ * recovers the points up to rotation and reflection; otherwise it is the
+ * best rank-2 fit to B. Asymmetric matrices are symmetrized first.
+ *
+ * @param matrix The distance matrix
+ * @returns One point per node
+ */
+export function classicalMDS(matrix: DistanceMatrix): Point[] {
+  const n = matrix.length;
+  const d = symmetrize(matrix);
+
+  // B = -1/2 J D² J with J the centring matrix
+  const squared = d.map(row => row.map(value => value * value));
+  const rowMeans = squared.map(row => row.reduce((sum, value) => sum + value, 0) / n);
+  const grandMean = rowMeans.reduce((sum, value) => sum + value, 0) / n;
+  const b = squared.map((row, i) => row.map((value, j) => -0.5 * (value - rowMeans[i] - rowMeans[j] + grandMean)));
+
+  const [first, second] = leadingEigenvectors(b, 2);
+  const axis = ({ value, vector }: { value: number; vector: number[] }) =>
+    vector.map(component => component * Math.sqrt(Math.max(value, 0)));
+  const xs = axis(first);
+  const ys = axis(second);
+
+  return xs.map((x, i) => ({ x, y: ys[i] }));
+}
+
+/**
+ * Largest eigenpairs of a symmetric matrix by power iteration with deflation
+ *
+ * The matrix is shifted by its Gershgorin bound so every eigenvalue is
+ * non-negative and the iteration finds the algebraically largest ones,
+ * not the largest in magnitude. Each vector is kept orthogonal to the ones
+ * already found.
+ *
+ * @param matrix Symmetric matrix
+ * @param count Number of eigenpairs
+ * @param maxIterations Iteration cap per eigenpair
+ * @returns Eigenvalues and unit eigenvectors, largest first
+ */
+function leadingEigenvectors(
+  matrix: number[][],
+  count: number,
+  maxIterations: number = 1000
+): { value: number; vector: number[] }[] {
+  const n = matrix.length;
+  const shift = Math.max(0, ...matrix.map(row => row.reduce((sum, value) => sum + Math.abs(value), 0)));
+  const multiply = (v: number[]) => matrix.map((row, i) => row.reduce((sum, value, j) => sum + value * v[j], shift * v[i]));
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+
+  const found: { value: number; vector: number[] }[] = [];
+  for (let k = 0; k < count; k++) {
+    const orthogonalize = (v: number[]) => {
+      for (const { vector } of found) {
+        const dot = v.reduce((sum, value, i) => sum + value * vector[i], 0);
+        v.forEach((_, i) => { v[i] -= dot * vector[i]; });
+      }
+      return v;
+    };
+
+    // A fixed, uneven start keeps the layout deterministic
+    let v = orthogonalize(Array.from({ length: n }, (_, i) => Math.cos(i * (k + 1) + 0.5)));
+    let length = norm(v);
+    if (length < EPSILON) {
+      found.push({ value: 0, vector: Array(n).fill(0) });
+      continue;
+    }
+    v = v.map(value => value / length);
+
+    let value = 0;
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const next = orthogonalize(multiply(v));
+      length = norm(next);
+      if (length < EPSILON) break;
+      const normalized = next.map(component => component / length);
+      const change = normalized.reduce((sum, component, i) => sum + Math.abs(component - v[i]), 0);
+      v = normalized;
+      value = length - shift;
+      if (change < 1e-10) break;
+    }
+    found.push({ value, vector: v });
+  }
+  return found;
+}
+
+/**
+ * Refines a layout by stress majorization (SMACOF)
+ *
+ * Each step is a Guttman transform, which never increases the raw stress
+ * sum over pairs of (|p_i - p_j| - d_ij)², so the layout settles into a
+ * local minimum near the starting one.
+ *
+ * @param matrix The distance matrix
+ * @param initial Starting layout, usually from classical MDS
+ * @param maxIterations Iteration cap
+ * @param tolerance Stop once an iteration lowers the stress by less than this fraction
+ * @returns The refined layout
+ */
+export function smacof(
+  matrix: DistanceMatrix,
+  initial: Point[],
+  maxIterations: number = 300,
+  tolerance: number = 1e-6
+): Point[] {
+  const n = matrix.length;
+  const d = symmetrize(matrix);
+  let points = initial.map(point => ({ ...point }));
+  let previous = rawStress(d, points);
+
+  for (let iteration = 0; iteration < maxIterations && previous > EPSILON; iteration++) {
+    // X' = B(X) X / n, which is centred whatever X is
+    const next = points.map((point, i) => {
+      let x = 0;
+      let y = 0;
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        const distance = Math.hypot(point.x - points[j].x, point.y - points[j].y);
+        const ratio = distance > EPSILON ? d[i][j] / distance : 0;
+        x += ratio * (point.x - points[j].x);
+        y += ratio * (point.y - points[j].y);
+      }
+      return { x: x / n, y: y / n };
+    });
+
+    const current = rawStress(d, next);
+    points = next;
+    if (previous - current < tolerance * previous) break;
+    previous = current;
+  }
+
+  return points;
+}
+
+/**
+ * Sum over pairs of the squared difference between layout and matrix distances
+ *
+ * @param d Symmetric distance matrix
+ * @param points The layout
+ * @returns The raw stress
+ */
+function rawStress(d: number[][], points: Point[]): number {
+  let stress = 0;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const gap = Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y) - d[i][j];
+      stress += gap * gap;
+    }
+  }
+  return stress;
+}
+
+/**
+ * Kruskal's normalized stress of a layout
+ *
+ * sqrt(sum (|p_i - p_j| - d_ij)² / sum d_ij²) over pairs: 0 when the layout
+ * reproduces every distance, around 0.1 for a fair picture and 0.2 or more
+ * for a poor one.
+ *
+ * @param matrix The distance matrix
+ * @param points The layout
+ * @returns The stress
+ */
+export function layoutStress(matrix: DistanceMatrix, points: Point[]): number {
+  const d = symmetrize(matrix);
+  let scale = 0;
+  for (let i = 0; i < d.length; i++) {
+    for (let j = i + 1; j < d.length; j++) scale += d[i][j] * d[i][j];
+  }
+  return scale > EPSILON ? Math.sqrt(rawStress(d, points) / scale) : 0;
+}
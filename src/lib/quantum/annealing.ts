@@ -0,0 +1,173 @@
+import { IsingModel, BackendType, AnnealerBackend, AnnealSchedule } from '../types';
+import { SamplerRun, createYielder } from './samplers';
+import { RandomSource } from '../random';
+
+export const ANNEALER_BACKENDS: Record<AnnealerBackend, string> = {
+  sqa_simulator: 'Simulated Quantum Annealer'
+};
+
+export const ANNEAL_SCHEDULES: Record<AnnealSchedule, string> = {
+  linear: 'Linear',
+  quadratic: 'Quadratic',
+  pause: 'Mid-anneal pause'
+};
+
+/** Transverse field at the start and end of an anneal, in units of the slice temperature */
+const FIELD_START = 3;
+const FIELD_END = 1e-3;
+
+/**
+ * Whether a backend anneals rather than runs a gate-model circuit
+ *
+ * @param backend The backend
+ * @returns True for the annealer backends
+ */
+export function isAnnealerBackend(backend: BackendType): backend is AnnealerBackend {
+  return backend in ANNEALER_BACKENDS;
+}
+
+/**
+ * Fraction of the way the transverse field has fallen at a point of the anneal
+ *
+ * - linear: the field falls at a constant rate
+ * - quadratic: it falls fast at first and slowly near the end, where the gap
+ *   is usually smallest
+ * - pause: linear, but held halfway for the middle third of the anneal
+ *
+ * @param schedule The schedule
+ * @param s Elapsed fraction of the anneal, 0 to 1
+ * @returns Fraction of the field drop, 0 to 1
+ */
+export function annealProgress(schedule: AnnealSchedule, s: number): number {
+  switch (schedule) {
+    case 'linear':
+      return s;
+    case 'quadratic':
+      return 1 - (1 - s) * (1 - s);
+    case 'pause':
+      return s < 1 / 3 ? 1.5 * s : s < 2 / 3 ? 0.5 : 1.5 * s - 0.5;
+  }
+}
+
+/**
+ * Samples an Ising model with a path-integral Monte Carlo simulation of a
+ * transverse-field quantum anneal
+ *
+ * The Suzuki–Trotter decomposition maps H = -Γ Σ σx_i + H_P at temperature
+ * T onto P classical copies of the spins, the Trotter slices, at temperature
+ * PT, each feeling H_P and coupled to its neighbours in imaginary time with
+ * strength J⊥ = -(PT / 2) ln tanh(Γ / PT). The couplings are rescaled so the
+ * largest is 1 and PT is held at 1. Γ falls from 3 to 0.001 along the
+ * schedule: while it is large the slices move independently, and as it falls
+ * they are pulled into agreement, which is how quantum fluctuations let the
+ * spins tunnel through barriers a thermal anneal must climb.
+ *
+ * Each sweep tries a Metropolis flip of every spin in every slice, then a
+ * flip of every spin in all slices at once. Every anneal is read out by
+ * measuring all its slices, so ceil(shots / P) anneals give the shots. The
+ * simulation yields to the browser every 100 ms or so.
+ *
+ * @param ising The Ising model; spin +1 is bit 0
+ * @param schedule How the transverse field falls
+ * @param trotterSlices Number of slices P
+ * @param sweeps Monte Carlo sweeps per anneal
+ * @param shots Number of reads
+ * @param random Random source
+ * @returns Reads per bitstring, qubit 0 rightmost, and the mean energy after each sweep
+ */
+export async function annealIsing(
+  ising: IsingModel,
+  schedule: AnnealSchedule,
+  trotterSlices: number,
+  sweeps: number,
+  shots: number,
+  random: RandomSource = Math.random
+): Promise<SamplerRun> {
+  const n = ising.h.length;
+  const P = Math.max(1, Math.round(trotterSlices));
+  const scale = Math.max(...ising.h.map(Math.abs), ...ising.J.map(coupling => Math.abs(coupling.value)), 0) || 1;
+
+  // Couplings of each spin, scaled so the largest coefficient is 1
+  const h = ising.h.map(value => value / scale);
+  const neighbours: [number, number][][] = Array.from({ length: n }, () => []);
+  for (const { i, j, value } of ising.J) {
+    neighbours[i].push([j, value / scale]);
+    neighbours[j].push([i, value / scale]);
+  }
+
+  const counts = new Map<string, number>();
+  const energySums = Array(sweeps).fill(0);
+  const anneals = Math.ceil(shots / P);
+  let reads = 0;
+  const pause = createYielder();
+
+  for (let anneal = 0; anneal < anneals; anneal++) {
+    // Spin i of slice k is spins[k * n + i]
+    const spins = new Int8Array(P * n);
+    for (let index = 0; index < spins.length; index++) spins[index] = random() < 0.5 ? 1 : -1;
+
+    // Local field of the problem Hamiltonian on each spin of each slice
+    const field = new Float64Array(P * n);
+    for (let k = 0; k < P; k++) {
+      for (let i = 0; i < n; i++) {
+        let f = h[i];
+        for (const [j, value] of neighbours[i]) f += value * spins[k * n + j];
+        field[k * n + i] = f;
+      }
+    }
+
+    const flip = (k: number, i: number) => {
+      const index = k * n + i;
+      spins[index] = -spins[index];
+      for (const [j, value] of neighbours[i]) field[k * n + j] += 2 * value * spins[index];
+    };
+
+    for (let sweep = 0; sweep < sweeps; sweep++) {
+      const progress = annealProgress(schedule, sweeps > 1 ? sweep / (sweeps - 1) : 1);
+      const gamma = FIELD_START + (FIELD_END - FIELD_START) * progress;
+      // Imaginary-time coupling over PT, with PT = 1
+      const coupling = -0.5 * Math.log(Math.tanh(gamma));
+
+      // Local moves: one spin in one slice
+      for (let k = 0; k < P; k++) {
+        const up = ((k + P - 1) % P) * n;
+        const down = ((k + 1) % P) * n;
+        for (let i = 0; i < n; i++) {
+          const z = spins[k * n + i];
+          const neighbourSlices = P > 1 ? spins[up + i] + spins[down + i] : 0;
+          const delta = -2 * z * field[k * n + i] + 2 * coupling * z * neighbourSlices;
+          if (delta <= 0 || random() < Math.exp(-delta)) flip(k, i);
+        }
+      }
+
+      // Global moves: one spin in every slice, leaving the slice coupling unchanged
+      for (let i = 0; i < n; i++) {
+        let delta = 0;
+        for (let k = 0; k < P; k++) delta -= 2 * spins[k * n + i] * field[k * n + i];
+        if (delta <= 0 || random() < Math.exp(-delta)) {
+          for (let k = 0; k < P; k++) flip(k, i);
+        }
+      }
+
+      // Mean problem energy over the slices, in the model's own units
+      let energy = 0;
+      for (let k = 0; k < P; k++) {
+        for (let i = 0; i < n; i++) {
+          const z = spins[k * n + i];
+          energy += z * (h[i] + field[k * n + i]) / 2;
+        }
+      }
+      energySums[sweep] += (energy / P) * scale + ising.offset;
+      await pause();
+    }
+
+    // Measure every slice; spin -1 reads as bit 1
+    for (let k = 0; k < P && reads < shots; k++, reads++) {
+      let bitstring = '';
+      for (let i = n - 1; i >= 0; i--) bitstring += spins[k * n + i] < 0 ? '1' : '0';
+      counts.set(bitstring, (counts.get(bitstring) || 0) + 1);
+    }
+  }
+
+  return { counts, trace: energySums.map(sum => sum / Math.max(anneals, 1)) };
+}
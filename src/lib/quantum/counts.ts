@@ -0,0 +1,141 @@
+import { VRPProblem, VRPSolution, QAOAParams, QuantumMetrics } from '../types';
+import { encodeProblem } from './encodings';
+import { isFeasibleSolution, scheduleRoute } from './qubo';
+import { circuitPenalties } from './qaoa';
+import { decodeSamples, rankSamples, sampleStatistics } from './samples';
+
+/**
+ * Parses measurement counts from an external quantum run
+ *
+ * Accepts either a JSON object as returned by Qiskit's `result.get_counts()`
+ * (binary or hex keys; spaces between classical registers are ignored) or a
+ * CSV with one `bitstring,count` pair per line and an optional header row.
+ *
+ * @param text The counts as pasted or read from a file
+ * @returns Count per key: a binary bitstring, qubit 0 rightmost, or a hex key
+ * as 0x… in lower case, whose leading zeros only the register width restores
+ */
+export function parseCounts(text: string): Map<string, number> {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('No counts to import');
+
+  const entries: [string, unknown][] = [];
+
+  if (trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Counts JSON could not be parsed');
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Counts JSON must be an object of bitstring: count pairs');
+    }
+    entries.push(...Object.entries(parsed));
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+    lines.forEach((line, index) => {
+      const [key, value, ...rest] = line.split(',').map(cell => cell.trim());
+      if (value === undefined || rest.length > 0) {
+        throw new Error(`Line ${index + 1} is not a bitstring,count pair`);
+      }
+      // Skip a header row such as "bitstring,count"
+      if (index === 0 && isNaN(Number(value))) return;
+      entries.push([key, Number(value)]);
+    });
+  }
+
+  const counts = new Map<string, number>();
+
+  for (const [rawKey, value] of entries) {
+    const key = rawKey.replace(/\s+/g, '');
+    let bitstring: string;
+    if (/^0x[0-9a-f]+$/i.test(key)) {
+      bitstring = `0x${BigInt(key).toString(16)}`;
+    } else if (/^[01]+$/.test(key)) {
+      bitstring = key;
+    } else {
+      throw new Error(`"${rawKey}" is not a binary or hex bitstring`);
+    }
+
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      throw new Error(`Count for "${rawKey}" must be a non-negative number`);
+    }
+
+    counts.set(bitstring, (counts.get(bitstring) || 0) + value);
+  }
+
+  return counts;
+}
+
+/**
+ * Interprets imported counts as a quantum solution
+ *
+ * The bitstrings must come from the circuit exported for the same problem:
+ * qubit k carries the k-th QUBO variable listed in the circuit header. Every
+ * bitstring is decoded and ranked by feasibility and route distance; the best
+ * one becomes the solution, marked infeasible if no bitstring decodes to
+ * valid routes, and all of them feed the quantum metrics. Counts
+ * from a two-stage circuit are stage 1 assignments, ordered nearest-neighbour
+ * first within each vehicle.
+ *
+ * @param problem The VRP problem the circuit was built for
+ * @param counts Count per key, as from parseCounts
+ * @param params QAOA parameters the circuit was exported with
+ * @param metrics Metrics of the QAOA run whose circuit was exported, if any
+ * @returns The VRP solution
+ */
+export function solutionFromCounts(
+  problem: VRPProblem,
+  counts: Map<string, number>,
+  params: QAOAParams,
+  metrics?: QuantumMetrics
+): VRPSolution {
+  const startTime = performance.now();
+
+  const { encoding } = params;
+  const penalties = circuitPenalties(problem, params, metrics);
+  const encoded = encodeProblem(problem, encoding, penalties);
+  const numQubits = encoded.variables.length;
+
+  // Hex keys drop leading zeros, so only they are padded to the register width;
+  // a binary key of any other width comes from a different circuit
+  const padded = new Map<string, number>();
+  for (const [key, count] of counts) {
+    const bitstring = key.startsWith('0x') ? BigInt(key).toString(2).padStart(numQubits, '0') : key;
+    if (bitstring.length !== numQubits) {
+      throw new Error(
+        `Bitstring ${key} has ${bitstring.length} bits, but the circuit for this problem has ${numQubits} qubits`
+      );
+    }
+    if (count === 0) continue;
+    padded.set(bitstring, (padded.get(bitstring) || 0) + count);
+  }
+  if (padded.size === 0) throw new Error('All imported counts are zero');
+
+  const samples = decodeSamples(padded, encoded, problem);
+  const routes = rankSamples(samples)[0].routes.map(route => scheduleRoute(route, problem));
+  const totalDistance = routes.reduce((sum, route) => sum + route.distance, 0);
+
+  return {
+    routes,
+    totalDistance,
+    executionTime: performance.now() - startTime,
+    solver: 'quantum',
+    feasible: isFeasibleSolution(routes, problem),
+    quantumMetrics: {
+      source: 'imported',
+      encoding,
+      numQubits,
+      penalties,
+      noisy: false,
+      gammas: [],
+      betas: [],
+      iterations: 0,
+      evaluations: 0,
+      convergence: [],
+      layerExpectations: [],
+      ...sampleStatistics(samples)
+    }
+  };
+}
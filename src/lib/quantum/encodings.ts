@@ -0,0 +1,363 @@
+import { VRPProblem, Route, SparseQubo, EncodingType, PenaltyWeights } from '../types';
+import { vrpToQubo, decodeSolution, createQubo, addQuboTerm, capacitySlack, addCapacityPenalty } from './qubo';
+
+export type EncodedProblem = {
+  encoding: EncodingType;
+  qubo: SparseQubo;
+  variables: number[]; // QUBO variable index for each qubit
+  labels: string[]; // Name of the variable carried by each qubit
+  decode: (solution: number[]) => Route[]; // Full QUBO solution vector to routes
+};
+
+export const ENCODING_NAMES: Record<EncodingType, string> = {
+  edge: 'Edge-based x_{i,j,v}',
+  position: 'Position-based x_{v,c,t}',
+  'two-stage': 'Assignment + per-vehicle TSP'
+};
+
+/**
+ * Builds the QUBO for a problem in the selected encoding
+ *
+ * For the two-stage encoding this is the first stage, assigning customers to
+ * vehicles; each vehicle's visiting order is a separate position-based QUBO,
+ * built with `clusterSubproblem`.
+ *
+ * @param problem The VRP problem
+ * @param encoding The encoding
+ * @param penalties The penalty coefficient of each constraint family
+ * @returns The QUBO with its qubit mapping and decoder
+ */
+export function encodeProblem(problem: VRPProblem, encoding: EncodingType, penalties: PenaltyWeights): EncodedProblem {
+  switch (encoding) {
+    case 'edge':
+      return edgeEncoding(problem, penalties);
+    case 'position':
+      return positionEncoding(problem, penalties);
+    case 'two-stage':
+      return assignmentEncoding(problem, penalties);
+  }
+}
+
+/**
+ * Qubits needed by each encoding
+ *
+ * The second stage of the two-stage encoding needs k^2 qubits for a vehicle
+ * serving k customers; the figure reported assumes customers are spread
+ * evenly, the size stage 1 is biased towards. Capacity slack bits count
+ * towards every encoding but the second stage, where a vehicle only
+ * carries what it was assigned.
+ *
+ * @param problem The VRP problem
+ * @returns Qubit count per encoding, with the stage 2 size per vehicle
+ */
+export function qubitCounts(problem: VRPProblem) {
+  const customers = problem.nodes.length - 1;
+  const v = problem.vehicles.length;
+  const perVehicle = Math.ceil(customers / v);
+  const slack = capacitySlack(problem).flat().length;
+
+  return {
+    edge: problem.nodes.length * (problem.nodes.length - 1) * v + slack,
+    position: v * customers * customers + slack,
+    assignment: customers * v + slack,
+    routing: perVehicle * perVehicle
+  };
+}
+
+/**
+ * Edge-based encoding from `vrpToQubo`
+ * Self-loop variables x_{i,i,v} never appear in a route, so they are fixed
+ * to 0 instead of spending a qubit on each of them
+ *
+ * @param problem The VRP problem
+ * @param penalties The penalty coefficient of each constraint family
+ * @returns The encoded problem
+ */
+function edgeEncoding(problem: VRPProblem, penalties: PenaltyWeights): EncodedProblem {
+  const n = problem.nodes.length;
+  const v = problem.vehicles.length;
+  const variables: number[] = [];
+  const labels: string[] = [];
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      for (let veh = 0; veh < v; veh++) {
+        variables.push(i * n * v + j * v + veh);
+        labels.push(`x_{${i},${j},${veh}}`);
+      }
+    }
+  }
+
+  const slack = slackQubits(problem, n * n * v);
+
+  return {
+    encoding: 'edge',
+    qubo: vrpToQubo(problem, penalties),
+    variables: [...variables, ...slack.variables],
+    labels: [...labels, ...slack.labels],
+    decode: solution => decodeSolution(solution, problem)
+  };
+}
+
+/**
+ * Position-based encoding with binary variables x_{v,c,t}: vehicle v visits
+ * customer c in its t-th slot. Every vehicle has n - 1 slots so that one
+ * vehicle can serve all customers; unused slots are left at the end.
+ *
+ * Penalties:
+ * - visit: each customer occupies exactly one slot of one vehicle
+ * - flow: each slot holds at most one customer, and slot t + 1 of a vehicle
+ *   is only used if slot t is
+ * - capacity: the demand in a vehicle's slots fits its capacity
+ *
+ * The distance objective charges the depot to the first slot, each pair of
+ * consecutive slots, and the last used slot back to the depot.
+ *
+ * @param problem The VRP problem
+ * @param penalties The penalty coefficient of each constraint family
+ * @returns The encoded problem
+ */
+function positionEncoding(problem: VRPProblem, penalties: PenaltyWeights): EncodedProblem {
+  const { vehicles, distanceMatrix: d } = problem;
+  const customers = problem.nodes.length - 1;
+  const slots = customers;
+  const v = vehicles.length;
+  const numSlotVars = v * customers * slots;
+  const slack = slackQubits(problem, numSlotVars);
+  const Q = createQubo(numSlotVars + slack.variables.length);
+
+  // Customers are numbered from 1, matching their node index
+  const index = (veh: number, c: number, t: number) => (veh * customers + (c - 1)) * slots + t;
+
+  // Each customer exactly once: penalty * (sum_{v,t} x - 1)^2
+  for (let c = 1; c <= customers; c++) {
+    const cells: number[] = [];
+    for (let veh = 0; veh < v; veh++) {
+      for (let t = 0; t < slots; t++) cells.push(index(veh, c, t));
+    }
+    cells.forEach((a, k) => {
+      addQuboTerm(Q, a, a, -penalties.visit);
+      for (const b of cells.slice(k + 1)) addQuboTerm(Q, a, b, 2 * penalties.visit);
+    });
+  }
+
+  for (let veh = 0; veh < v; veh++) {
+    for (let t = 0; t < slots; t++) {
+      for (let c = 1; c <= customers; c++) {
+        // At most one customer per slot
+        for (let c2 = c + 1; c2 <= customers; c2++) {
+          addQuboTerm(Q, index(veh, c, t), index(veh, c2, t), penalties.flow);
+        }
+
+        // Depot to the first slot, and back to the depot from each slot...
+        if (t === 0) addQuboTerm(Q, index(veh, c, t), index(veh, c, t), d[0][c]);
+        addQuboTerm(Q, index(veh, c, t), index(veh, c, t), d[c][0]);
+
+        if (t + 1 === slots) continue;
+
+        // ...unless the next slot is used, in which case travel there instead
+        addQuboTerm(Q, index(veh, c, t + 1), index(veh, c, t + 1), penalties.flow);
+        for (let c2 = 1; c2 <= customers; c2++) {
+          const weight = (c2 === c ? 0 : d[c][c2]) - d[c][0] - penalties.flow;
+          addQuboTerm(Q, index(veh, c, t), index(veh, c2, t + 1), weight);
+        }
+      }
+    }
+  }
+
+  // Each vehicle's deliveries fit its capacity
+  addCapacityPenalty(Q, problem, numSlotVars, veh => {
+    const load: [number, number][] = [];
+    for (let c = 1; c <= customers; c++) {
+      for (let t = 0; t < slots; t++) load.push([index(veh, c, t), problem.nodes[c].demand ?? 0]);
+    }
+    return load;
+  }, penalties.capacity);
+
+  const labels: string[] = [];
+  for (let veh = 0; veh < v; veh++) {
+    for (let c = 1; c <= customers; c++) {
+      for (let t = 0; t < slots; t++) labels.push(`x_{${veh},${c},${t}}`);
+    }
+  }
+
+  const decode = (solution: number[]): Route[] => {
+    const routes: Route[] = [];
+    for (let veh = 0; veh < v; veh++) {
+      const path = [0];
+      for (let t = 0; t < slots; t++) {
+        for (let c = 1; c <= customers; c++) {
+          if (solution[index(veh, c, t)] === 1) path.push(c);
+        }
+      }
+      if (path.length === 1) continue;
+      path.push(0);
+      routes.push({ vehicleId: vehicles[veh].id, path, distance: pathDistance(path, problem) });
+    }
+    return routes;
+  };
+
+  return {
+    encoding: 'position',
+    qubo: Q,
+    variables: [...labels.map((_, k) => k), ...slack.variables],
+    labels: [...labels, ...slack.labels],
+    decode
+  };
+}
+
+/**
+ * First stage of the two-stage encoding, with binary variables x_{c,v}:
+ * customer c is served by vehicle v
+ *
+ * The visit penalty assigns each customer to exactly one vehicle and the
+ * capacity penalty keeps each vehicle's customers within its capacity.
+ * Route length is approximated by the distances between customers sharing
+ * a vehicle plus each customer's round trip from the depot, which favours
+ * compact, balanced clusters. The decoder orders each cluster
+ * nearest-neighbour first; the solver then refines the order with the
+ * second stage.
+ *
+ * @param problem The VRP problem
+ * @param penalties The penalty coefficient of each constraint family
+ * @returns The encoded problem
+ */
+function assignmentEncoding(problem: VRPProblem, penalties: PenaltyWeights): EncodedProblem {
+  const { vehicles, distanceMatrix: d } = problem;
+  const customers = problem.nodes.length - 1;
+  const v = vehicles.length;
+  const slack = slackQubits(problem, customers * v);
+  const Q = createQubo(customers * v + slack.variables.length);
+
+  const index = (c: number, veh: number) => (c - 1) * v + veh;
+
+  for (let c = 1; c <= customers; c++) {
+    for (let veh = 0; veh < v; veh++) {
+      // Exactly one vehicle per customer: penalty * (sum_v x - 1)^2
+      addQuboTerm(Q, index(c, veh), index(c, veh), d[0][c] + d[c][0] - penalties.visit);
+      for (let veh2 = veh + 1; veh2 < v; veh2++) {
+        addQuboTerm(Q, index(c, veh), index(c, veh2), 2 * penalties.visit);
+      }
+
+      // Customers sharing a vehicle
+      for (let c2 = c + 1; c2 <= customers; c2++) {
+        addQuboTerm(Q, index(c, veh), index(c2, veh), (d[c][c2] + d[c2][c]) / 2);
+      }
+    }
+  }
+
+  // Each vehicle's customers fit its capacity
+  addCapacityPenalty(Q, problem, customers * v, veh => {
+    const load: [number, number][] = [];
+    for (let c = 1; c <= customers; c++) load.push([index(c, veh), problem.nodes[c].demand ?? 0]);
+    return load;
+  }, penalties.capacity);
+
+  const labels: string[] = [];
+  for (let c = 1; c <= customers; c++) {
+    for (let veh = 0; veh < v; veh++) labels.push(`x_{${c},${veh}}`);
+  }
+
+  const decode = (solution: number[]): Route[] => {
+    const routes: Route[] = [];
+    for (let veh = 0; veh < v; veh++) {
+      const cluster: number[] = [];
+      for (let c = 1; c <= customers; c++) {
+        if (solution[index(c, veh)] === 1) cluster.push(c);
+      }
+      if (cluster.length === 0) continue;
+      const path = [0, ...nearestNeighbourOrder(cluster, problem), 0];
+      routes.push({ vehicleId: vehicles[veh].id, path, distance: pathDistance(path, problem) });
+    }
+    return routes;
+  };
+
+  return {
+    encoding: 'two-stage',
+    qubo: Q,
+    variables: [...labels.map((_, k) => k), ...slack.variables],
+    labels: [...labels, ...slack.labels],
+    decode
+  };
+}
+
+/**
+ * Capacity slack variables, which are carried by qubits like the rest
+ *
+ * @param problem The VRP problem
+ * @param firstSlack Index of the first slack variable
+ * @returns The slack variable indices and their names s_{v,k}
+ */
+function slackQubits(problem: VRPProblem, firstSlack: number): { variables: number[]; labels: string[] } {
+  const variables: number[] = [];
+  const labels: string[] = [];
+
+  capacitySlack(problem).forEach((coefficients, veh) => {
+    coefficients.forEach((_, k) => {
+      variables.push(firstSlack + variables.length);
+      labels.push(`s_{${veh},${k}}`);
+    });
+  });
+
+  return { variables, labels };
+}
+
+/**
+ * Single-vehicle problem over the depot and one vehicle's customers, for the
+ * second stage of the two-stage encoding
+ *
+ * @param problem The VRP problem
+ * @param route The vehicle's route from the first stage
+ * @returns The subproblem and the original node index of each of its nodes
+ */
+export function clusterSubproblem(problem: VRPProblem, route: Route): { subproblem: VRPProblem; nodeMap: number[] } {
+  const nodeMap = [0, ...route.path.filter(node => node !== 0)];
+
+  const subproblem: VRPProblem = {
+    nodes: nodeMap.map((node, k) => ({ ...problem.nodes[node], id: k })),
+    vehicles: problem.vehicles.filter(vehicle => vehicle.id === route.vehicleId),
+    distanceMatrix: nodeMap.map(a => nodeMap.map(b => problem.distanceMatrix[a][b]))
+  };
+
+  return { subproblem, nodeMap };
+}
+
+/**
+ * Total distance along a path
+ *
+ * @param path Node indices, depot first and last
+ * @param problem The VRP problem
+ * @returns Path length
+ */
+function pathDistance(path: number[], problem: VRPProblem): number {
+  let distance = 0;
+  for (let k = 1; k < path.length; k++) {
+    distance += problem.distanceMatrix[path[k - 1]][path[k]];
+  }
+  return distance;
+}
+
+/**
+ * Visits a set of customers nearest-neighbour first, starting at the depot
+ *
+ * @param cluster Customer node indices
+ * @param problem The VRP problem
+ * @returns The customers in visiting order
+ */
+function nearestNeighbourOrder(cluster: number[], problem: VRPProblem): number[] {
+  const remaining = [...cluster];
+  const order: number[] = [];
+  let current = 0;
+
+  while (remaining.length > 0) {
+    let best = 0;
+    for (let k = 1; k < remaining.length; k++) {
+      if (problem.distanceMatrix[current][remaining[k]] < problem.distanceMatrix[current][remaining[best]]) best = k;
+    }
+    current = remaining.splice(best, 1)[0];
+    order.push(current);
+  }
+
+  return order;
+}
@@ -0,0 +1,333 @@
+import { BackendType, IsingModel } from '../types';
+import {
+  Statevector,
+  uniformSuperposition,
+  applyCostLayer,
+  applyRX,
+  applyPauliString,
+  probabilities,
+  sampleCounts
+} from './statevector';
+
+export type QubitCalibration = {
+  t1: number; // Relaxation time, µs
+  t2: number; // Dephasing time, µs
+  sxError: number; // Error per √X pulse
+  readoutError: number; // Probability a measured bit is flipped
+};
+
+export type NoiseProfile = {
+  backend: BackendType;
+  processor: string;
+  numQubits: number;
+  couplingMap: [number, number][];
+  cxErrors: number[]; // Error per CNOT, one per coupling map edge
+  qubits: QubitCalibration[];
+  sxDuration: number; // ns
+  cxDuration: number; // ns
+};
+
+/**
+ * Offline noise profiles for the hardware backends
+ *
+ * All three are 5-qubit Falcon r4T devices with a T-shaped coupling map.
+ * The figures are representative of the calibrations IBM published while
+ * the devices were online, not a snapshot of one particular day.
+ */
+export const NOISE_PROFILES: Partial<Record<BackendType, NoiseProfile>> = {
+  ibmq_lima: {
+    backend: 'ibmq_lima',
+    processor: 'Falcon r4T',
+    numQubits: 5,
+    couplingMap: [[0, 1], [1, 2], [1, 3], [3, 4]],
+    cxErrors: [0.0081, 0.0094, 0.0112, 0.0127],
+    qubits: [
+      { t1: 112, t2: 142, sxError: 0.00029, readoutError: 0.021 },
+      { t1: 96, t2: 121, sxError: 0.00035, readoutError: 0.018 },
+      { t1: 81, t2: 93, sxError: 0.00041, readoutError: 0.027 },
+      { t1: 118, t2: 152, sxError: 0.00032, readoutError: 0.024 },
+      { t1: 58, t2: 79, sxError: 0.00064, readoutError: 0.039 }
+    ],
+    sxDuration: 35.5,
+    cxDuration: 330
+  },
+  ibmq_belem: {
+    backend: 'ibmq_belem',
+    processor: 'Falcon r4T',
+    numQubits: 5,
+    couplingMap: [[0, 1], [1, 2], [1, 3], [3, 4]],
+    cxErrors: [0.0102, 0.0131, 0.0148, 0.0119],
+    qubits: [
+      { t1: 94, t2: 108, sxError: 0.00038, readoutError: 0.026 },
+      { t1: 101, t2: 96, sxError: 0.00044, readoutError: 0.031 },
+      { t1: 86, t2: 74, sxError: 0.00052, readoutError: 0.022 },
+      { t1: 104, t2: 131, sxError: 0.00036, readoutError: 0.029 },
+      { t1: 109, t2: 118, sxError: 0.00041, readoutError: 0.034 }
+    ],
+    sxDuration: 35.5,
+    cxDuration: 420
+  },
+  ibmq_quito: {
+    backend: 'ibmq_quito',
+    processor: 'Falcon r4T',
+    numQubits: 5,
+    couplingMap: [[0, 1], [1, 2], [1, 3], [3, 4]],
+    cxErrors: [0.0073, 0.0089, 0.0106, 0.0094],
+    qubits: [
+      { t1: 84, t2: 129, sxError: 0.00027, readoutError: 0.036 },
+      { t1: 112, t2: 143, sxError: 0.00031, readoutError: 0.048 },
+      { t1: 95, t2: 117, sxError: 0.00039, readoutError: 0.041 },
+      { t1: 71, t2: 84, sxError: 0.00047, readoutError: 0.053 },
+      { t1: 101, t2: 137, sxError: 0.00034, readoutError: 0.032 }
+    ],
+    sxDuration: 35.5,
+    cxDuration: 290
+  }
+};
+
+/** Upper bound on the number of noisy trajectories per run */
+const MAX_TRAJECTORIES = 32;
+
+/**
+ * Noise profile for a backend
+ *
+ * @param backend The selected backend
+ * @returns The profile, or undefined for the noiseless simulators
+ */
+export function getNoiseProfile(backend: BackendType): NoiseProfile | undefined {
+  return NOISE_PROFILES[backend];
+}
+
+/**
+ * Device-wide averages, for display
+ *
+ * @param profile The noise profile
+ * @returns Mean CNOT, √X and readout errors and mean T1/T2
+ */
+export function averageCalibration(profile: NoiseProfile) {
+  const mean = (values: number[]) => values.reduce((sum, x) => sum + x, 0) / values.length;
+
+  return {
+    cxError: mean(profile.cxErrors),
+    sxError: mean(profile.qubits.map(q => q.sxError)),
+    readoutError: mean(profile.qubits.map(q => q.readoutError)),
+    t1: mean(profile.qubits.map(q => q.t1)),
+    t2: mean(profile.qubits.map(q => q.t2))
+  };
+}
+
+type DeviceLayout = {
+  calibration: QubitCalibration[]; // Per logical qubit
+  // CNOT error of each edge on the shortest path between two logical qubits
+  pathErrors: (a: number, b: number) => number[];
+};
+
+/**
+ * Maps logical qubits onto the device with a trivial layout
+ *
+ * Circuits wider than the device run on copies of it chained together, the
+ * last qubit of one copy coupled to the first qubit of the next with the
+ * device's mean CNOT error. Qubit q then has the calibration of physical
+ * qubit q mod N. This keeps the per-qubit error figures and the routing
+ * overhead of a sparse coupling map while still admitting the larger
+ * problems.
+ *
+ * @param profile The noise profile
+ * @param numQubits Number of logical qubits
+ * @returns Per-qubit calibration and routed CNOT errors
+ */
+function layoutOnDevice(profile: NoiseProfile, numQubits: number): DeviceLayout {
+  const n = profile.numQubits;
+  const copies = Math.ceil(numQubits / n);
+  const size = copies * n;
+
+  // Adjacency list with the CNOT error of each edge
+  const edges: { to: number; error: number }[][] = Array(size).fill(0).map(() => []);
+  const link = (a: number, b: number, error: number) => {
+    edges[a].push({ to: b, error });
+    edges[b].push({ to: a, error });
+  };
+  for (let copy = 0; copy < copies; copy++) {
+    profile.couplingMap.forEach(([a, b], e) => link(copy * n + a, copy * n + b, profile.cxErrors[e]));
+    if (copy > 0) link(copy * n - 1, copy * n, averageCalibration(profile).cxError);
+  }
+
+  // Breadth-first search from every qubit, keeping parent edges
+  const parents: { from: number; error: number }[][] = [];
+  for (let source = 0; source < size; source++) {
+    const parent: { from: number; error: number }[] = Array(size).fill(null);
+    const visited = new Set([source]);
+    const queue = [source];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      for (const { to, error } of edges[node]) {
+        if (visited.has(to)) continue;
+        visited.add(to);
+        parent[to] = { from: node, error };
+        queue.push(to);
+      }
+    }
+    parents.push(parent);
+  }
+
+  const pathErrors = (a: number, b: number) => {
+    const errors: number[] = [];
+    for (let node = b; node !== a; node = parents[a][node].from) {
+      errors.push(parents[a][node].error);
+    }
+    return errors;
+  };
+
+  return {
+    calibration: Array(numQubits).fill(0).map((_, q) => profile.qubits[q % n]),
+    pathErrors
+  };
+}
+
+/**
+ * Pauli-twirled thermal relaxation over an idle period
+ *
+ * @param calibration The qubit's calibration
+ * @param duration Idle time in ns
+ * @returns Probabilities of an X, Y and Z error
+ */
+function relaxationErrors(calibration: QubitCalibration, duration: number) {
+  const t = duration / 1000; // ns → µs
+  const px = (1 - Math.exp(-t / calibration.t1)) / 4;
+  const pz = Math.max(0, (1 - Math.exp(-t / calibration.t2)) / 2 - px);
+  return { px, py: px, pz };
+}
+
+/**
+ * Samples the QAOA circuit on a noisy backend with quantum trajectories
+ *
+ * Each trajectory runs the circuit layer by layer and injects random Pauli
+ * errors: depolarizing errors after √X pulses (one per Hadamard, two per RX
+ * mixer) and for each routed ZZ interaction, plus a Pauli-twirled T1/T2
+ * relaxation on every qubit per layer. RZ gates are virtual and error-free,
+ * as on IBM hardware. A ZZ between qubits d edges apart is decomposed into
+ * two CNOTs on the final edge and d - 1 SWAPs (three CNOTs each) there and
+ * back. The cost layer is applied as one diagonal phase, so the ZZ errors
+ * sampled for it act after the whole layer rather than after their own gate,
+ * and the errors of each stretch are applied together as one Pauli string.
+ * Shots are split across trajectories and every measured bit is then
+ * flipped with the qubit's readout error. The thread is yielded between
+ * trajectories so the page stays responsive.
+ *
+ * @param ising Cost Hamiltonian over the qubits
+ * @param energies Diagonal of the same Hamiltonian, one energy per basis state
+ * @param gammas Cost angles, one per layer
+ * @param betas Mixer angles, one per layer
+ * @param profile Backend noise profile
+ * @param shots Number of shots
+ * @param random Uniform random source in [0, 1)
+ * @returns Count per measured basis state
+ */
+export async function sampleNoisyQAOA(
+  ising: IsingModel,
+  energies: Float64Array,
+  gammas: number[],
+  betas: number[],
+  profile: NoiseProfile,
+  shots: number,
+  random: () => number = Math.random
+): Promise<Map<number, number>> {
+  const numQubits = ising.h.length;
+  const { calibration, pathErrors } = layoutOnDevice(profile, numQubits);
+
+  // Probability that a routed ZZ interaction suffers an error
+  const zzErrors = ising.J.map(({ i, j }) => {
+    const errors = pathErrors(i, j);
+    let survival = Math.pow(1 - errors[errors.length - 1], 2);
+    for (const error of errors.slice(0, -1)) survival *= Math.pow(1 - error, 6);
+    return 1 - survival;
+  });
+
+  // Layer duration: the busiest qubit's CNOTs plus two √X pulses of the mixer
+  const cnotsPerQubit = Array(numQubits).fill(0);
+  ising.J.forEach(({ i, j }) => {
+    const cnots = 2 + 6 * (pathErrors(i, j).length - 1);
+    cnotsPerQubit[i] += cnots;
+    cnotsPerQubit[j] += cnots;
+  });
+  const layerDuration = Math.max(0, ...cnotsPerQubit) * profile.cxDuration + 2 * profile.sxDuration;
+  const relaxation = calibration.map(c => relaxationErrors(c, layerDuration));
+
+  // Errors drawn for a stretch of the circuit are collected into one Pauli string;
+  // Paulis commute up to a global phase, so applying them together is exact
+  let xMask = 0;
+  let zMask = 0;
+  const addPauli = (qubit: number, pauli: 'X' | 'Y' | 'Z') => {
+    if (pauli !== 'Z') xMask ^= 1 << qubit;
+    if (pauli !== 'X') zMask ^= 1 << qubit;
+  };
+  const singleQubitError = (qubit: number, probability: number) => {
+    if (random() < probability) addPauli(qubit, (['X', 'Y', 'Z'] as const)[Math.floor(random() * 3)]);
+  };
+  const flushErrors = (state: Statevector) => {
+    if (xMask || zMask) applyPauliString(state, xMask, zMask);
+    xMask = 0;
+    zMask = 0;
+  };
+
+  const trajectories = Math.min(MAX_TRAJECTORIES, shots);
+  const counts = new Map<number, number>();
+
+  for (let t = 0; t < trajectories; t++) {
+    if (t > 0) await new Promise(resolve => setTimeout(resolve, 0));
+    
+    // Hadamard layer
+    const state = uniformSuperposition(numQubits);
+    for (let q = 0; q < numQubits; q++) singleQubitError(q, calibration[q].sxError);
+    flushErrors(state);
+
+    for (let layer = 0; layer < gammas.length; layer++) {
+      // Cost layer: exp(-i gamma (sum h z + sum J zz)) in one pass, then its ZZ errors
+      applyCostLayer(state, energies, gammas[layer]);
+      ising.J.forEach(({ i, j }, k) => {
+        if (random() < zzErrors[k]) {
+          // Uniformly random non-identity two-qubit Pauli
+          const pauli = 1 + Math.floor(random() * 15);
+          const paulis = [null, 'X', 'Y', 'Z'] as const;
+          const first = paulis[pauli & 3];
+          const second = paulis[pauli >> 2];
+          if (first) addPauli(i, first);
+          if (second) addPauli(j, second);
+        }
+      });
+      flushErrors(state);
+
+      // Mixer layer: RX(2 beta) = two √X pulses; an error on one qubit commutes
+      // with the rotations of the others, so the layer's errors act after it
+      for (let q = 0; q < numQubits; q++) {
+        applyRX(state, q, 2 * betas[layer]);
+        singleQubitError(q, 1 - Math.pow(1 - calibration[q].sxError, 2));
+      }
+
+      // Idle relaxation accumulated over the layer
+      for (let q = 0; q < numQubits; q++) {
+        const { px, py, pz } = relaxation[q];
+        const r = random();
+        if (r < px) addPauli(q, 'X');
+        else if (r < px + py) addPauli(q, 'Y');
+        else if (r < px + py + pz) addPauli(q, 'Z');
+      }
+      flushErrors(state);
+    }
+
+    // Split the shots evenly, then apply readout errors bit by bit
+    const trajectoryShots = Math.floor(shots / trajectories) + (t < shots % trajectories ? 1 : 0);
+    const ideal = sampleCounts(probabilities(state), trajectoryShots, random);
+    for (const [measured, count] of ideal) {
+      for (let shot = 0; shot < count; shot++) {
+        let observed = measured;
+        for (let q = 0; q < numQubits; q++) {
+          if (random() < calibration[q].readoutError) observed ^= 1 << q;
+        }
+        counts.set(observed, (counts.get(observed) || 0) + 1);
+      }
+    }
+  }
+
+  return counts;
+}
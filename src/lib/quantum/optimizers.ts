@@ -0,0 +1,321 @@
+import { OptimizerType } from '../types';
+
+export type ObjectiveFunction = (x: number[]) => number;
+
+export type OptimizerOptions = {
+  maxIterations: number;
+  tolerance: number;
+  initialStep?: number;
+  random?: () => number;
+};
+
+export type OptimizerResult = {
+  x: number[];
+  value: number;
+  iterations: number;
+  evaluations: number;
+  // Objective value at the current iterate after each iteration
+  trace: number[];
+};
+
+/**
+ * Minimizes an objective with the selected derivative-free optimizer
+ *
+ * @param method Optimizer to use
+ * @param f Objective function
+ * @param x0 Starting point
+ * @param options Iteration cap, tolerance and step size
+ * @returns The best point found and the per-iteration trace
+ */
+export function minimize(
+  method: OptimizerType,
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions
+): OptimizerResult {
+  switch (method) {
+    case 'cobyla':
+      return minimizeCOBYLA(f, x0, options);
+    case 'nelder-mead':
+      return minimizeNelderMead(f, x0, options);
+    case 'spsa':
+      return minimizeSPSA(f, x0, options);
+  }
+}
+
+/**
+ * Nelder–Mead downhill simplex with the standard coefficients
+ * (reflection 1, expansion 2, contraction 0.5, shrink 0.5)
+ *
+ * Stops when the spread of objective values across the simplex drops below
+ * the tolerance or the iteration cap is reached.
+ */
+export function minimizeNelderMead(
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions
+): OptimizerResult {
+  const { maxIterations, tolerance, initialStep = 0.25 } = options;
+  const n = x0.length;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    return f(x);
+  };
+
+  // Initial simplex: x0 plus one step along each axis
+  let simplex = [x0.slice()];
+  for (let i = 0; i < n; i++) {
+    const vertex = x0.slice();
+    vertex[i] += initialStep;
+    simplex.push(vertex);
+  }
+  let values = simplex.map(evaluate);
+
+  const trace: number[] = [];
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    // Sort vertices from best to worst
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+
+    if (Math.abs(values[n] - values[0]) < tolerance) break;
+    iterations++;
+
+    // Centroid of every vertex except the worst
+    const centroid = Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let d = 0; d < n; d++) centroid[d] += simplex[i][d] / n;
+    }
+    const along = (t: number) => centroid.map((c, d) => c + t * (simplex[n][d] - c));
+
+    const reflected = along(-1);
+    const fr = evaluate(reflected);
+
+    if (fr < values[0]) {
+      const expanded = along(-2);
+      const fe = evaluate(expanded);
+      if (fe < fr) {
+        simplex[n] = expanded;
+        values[n] = fe;
+      } else {
+        simplex[n] = reflected;
+        values[n] = fr;
+      }
+    } else if (fr < values[n - 1]) {
+      simplex[n] = reflected;
+      values[n] = fr;
+    } else {
+      // Outside contraction if the reflection beat the worst vertex, inside otherwise
+      const contracted = fr < values[n] ? along(-0.5) : along(0.5);
+      const fc = evaluate(contracted);
+      if (fc < Math.min(fr, values[n])) {
+        simplex[n] = contracted;
+        values[n] = fc;
+      } else {
+        // Shrink towards the best vertex
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((x, d) => simplex[0][d] + 0.5 * (x - simplex[0][d]));
+          values[i] = evaluate(simplex[i]);
+        }
+      }
+    }
+
+    trace.push(Math.min(...values));
+  }
+
+  const best = values.indexOf(Math.min(...values));
+  return { x: simplex[best], value: values[best], iterations, evaluations, trace };
+}
+
+/**
+ * COBYLA (Constrained Optimization BY Linear Approximations) for the
+ * unconstrained case, after Powell (1994)
+ *
+ * A linear model of the objective is interpolated on a simplex of n + 1
+ * points and minimized inside a trust region of radius rho. Steps that
+ * improve on the best vertex replace the worst one; otherwise rho is halved
+ * and the simplex rebuilt around the best point. Stops when rho falls below
+ * the tolerance or the iteration cap is reached.
+ */
+export function minimizeCOBYLA(
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions
+): OptimizerResult {
+  const { maxIterations, tolerance, initialStep = 0.25 } = options;
+  const n = x0.length;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    return f(x);
+  };
+
+  let rho = initialStep;
+  let best = x0.slice();
+  let bestValue = evaluate(best);
+
+  const buildSimplex = () => {
+    const points: number[][] = [];
+    const values: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const vertex = best.slice();
+      vertex[i] += rho;
+      points.push(vertex);
+      values.push(evaluate(vertex));
+    }
+    return { points, values };
+  };
+
+  let { points, values } = buildSimplex();
+
+  const trace: number[] = [];
+  let iterations = 0;
+
+  while (iterations < maxIterations && rho >= tolerance) {
+    iterations++;
+
+    // Linear model: (x_i - best) . g = f_i - f_best
+    const gradient = solveLinearSystem(
+      points.map(p => p.map((x, d) => x - best[d])),
+      values.map(v => v - bestValue)
+    );
+    const norm = gradient ? Math.hypot(...gradient) : 0;
+
+    let improved = false;
+    if (gradient && norm > 0) {
+      const trial = best.map((x, d) => x - (rho * gradient[d]) / norm);
+      const trialValue = evaluate(trial);
+
+      if (trialValue < bestValue) {
+        // The old best becomes a simplex vertex in place of the worst one
+        const worst = values.indexOf(Math.max(...values));
+        points[worst] = best;
+        values[worst] = bestValue;
+        best = trial;
+        bestValue = trialValue;
+        improved = true;
+      }
+    }
+
+    if (!improved) {
+      // Either a vertex already beats the best point or the model is exhausted
+      const lowest = values.indexOf(Math.min(...values));
+      if (values[lowest] < bestValue) {
+        const previous = best;
+        const previousValue = bestValue;
+        best = points[lowest];
+        bestValue = values[lowest];
+        points[lowest] = previous;
+        values[lowest] = previousValue;
+      } else {
+        rho /= 2;
+        ({ points, values } = buildSimplex());
+      }
+    }
+
+    trace.push(bestValue);
+  }
+
+  return { x: best, value: bestValue, iterations, evaluations, trace };
+}
+
+/**
+ * Simultaneous Perturbation Stochastic Approximation, after Spall (1998)
+ *
+ * Each iteration estimates the gradient from two evaluations along a random
+ * ±1 perturbation, which makes it robust to shot noise. Gains follow
+ * a_k = a / (k + 1 + A)^0.602 and c_k = c / (k + 1)^0.101, with a calibrated
+ * so the first step has length `initialStep`. Stops when a step is shorter
+ * than the tolerance or the iteration cap is reached.
+ */
+export function minimizeSPSA(
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions
+): OptimizerResult {
+  const { maxIterations, tolerance, initialStep = 0.25, random = Math.random } = options;
+  const n = x0.length;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    return f(x);
+  };
+
+  const c = 0.1;
+  const A = Math.max(1, Math.floor(0.1 * maxIterations));
+  let a = 0;
+
+  let x = x0.slice();
+  let best = x.slice();
+  let bestValue = evaluate(x);
+
+  const trace: number[] = [];
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    const k = iterations++;
+    const ck = c / Math.pow(k + 1, 0.101);
+    const delta = Array(n).fill(0).map(() => (random() < 0.5 ? -1 : 1));
+
+    const plus = evaluate(x.map((xi, d) => xi + ck * delta[d]));
+    const minus = evaluate(x.map((xi, d) => xi - ck * delta[d]));
+    const gradient = delta.map(dd => (plus - minus) / (2 * ck * dd));
+
+    // Calibrate the gain on the first gradient estimate
+    if (k === 0) {
+      const magnitude = Math.max(...gradient.map(Math.abs));
+      a = magnitude > 0 ? (initialStep * Math.pow(A + 1, 0.602)) / magnitude : 0;
+    }
+
+    const ak = a / Math.pow(k + 1 + A, 0.602);
+    const step = gradient.map(g => -ak * g);
+    x = x.map((xi, d) => xi + step[d]);
+
+    const value = evaluate(x);
+    if (value < bestValue) {
+      best = x.slice();
+      bestValue = value;
+    }
+    trace.push(value);
+
+    if (Math.hypot(...step) < tolerance) break;
+  }
+
+  return { x: best, value: bestValue, iterations, evaluations, trace };
+}
+
+/**
+ * Solves a small dense linear system with partial pivoting
+ *
+ * @returns The solution, or null if the system is singular
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+
+  return x;
+}
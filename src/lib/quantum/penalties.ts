@@ -0,0 +1,85 @@
+import { VRPProblem, EncodingType, PenaltyFamily, PenaltyWeights, PenaltyStrategy } from '../types';
+
+/** Penalty coefficient used when none is given */
+export const DEFAULT_PENALTY = 10.0;
+
+export const PENALTY_FAMILIES: Record<PenaltyFamily, string> = {
+  visit: 'Visit once',
+  flow: 'Route flow',
+  capacity: 'Capacity'
+};
+
+export const PENALTY_STRATEGIES: Record<PenaltyStrategy, string> = {
+  fixed: 'Fixed coefficient',
+  'max-edge': 'Max-edge bound',
+  sweep: 'Feasibility sweep'
+};
+
+/** Multiples of the max-edge bound tried by the sweep strategy */
+export const PENALTY_SWEEP_SCALES = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * The same coefficient for every constraint family
+ *
+ * @param penalty The coefficient
+ * @returns Penalty weights
+ */
+export function uniformPenalties(penalty: number): PenaltyWeights {
+  return { visit: penalty, flow: penalty, capacity: penalty };
+}
+
+/**
+ * Multiplies penalty weights family by family
+ *
+ * @param penalties Penalty weights
+ * @param multipliers Factor for each family
+ * @returns Scaled penalty weights
+ */
+export function scalePenalties(penalties: PenaltyWeights, multipliers: PenaltyWeights): PenaltyWeights {
+  return {
+    visit: penalties.visit * multipliers.visit,
+    flow: penalties.flow * multipliers.flow,
+    capacity: penalties.capacity * multipliers.capacity
+  };
+}
+
+/**
+ * Penalties large enough that breaking a constraint never pays off
+ *
+ * Each family's bound is the most distance a single violation can save,
+ * in multiples of the longest edge w:
+ * - Edge-based: skipping a customer breaks both its arrival and departure
+ *   constraint and saves at most 2w, so w per constraint; a two-customer
+ *   loop cut out of a route saves at most 4w and pays twice the flow
+ *   weight, so 2w
+ * - Position-based: dropping a customer saves its two edges, 2w; an empty
+ *   slot or a doubled-up slot skips at most one edge, w
+ * - Assignment: dropping a customer saves its depot round trip, 2w, and
+ *   up to w per other customer on the vehicle, nw in all for n nodes; it
+ *   has no flow constraint
+ *
+ * An overload of at least one unit lets one customer move to a vehicle that
+ * suits it better, saving what dropping it would, so the capacity bound
+ * follows the visit bound: 2w, except nw for the assignment.
+ *
+ * @param problem The VRP problem
+ * @param encoding The encoding
+ * @returns Penalty weights at the bound
+ */
+export function maxEdgePenalties(problem: VRPProblem, encoding: EncodingType): PenaltyWeights {
+  const { distanceMatrix } = problem;
+  let maxEdge = 0;
+  distanceMatrix.forEach((row, i) => row.forEach((d, j) => {
+    if (i !== j) maxEdge = Math.max(maxEdge, d);
+  }));
+  maxEdge = maxEdge || 1;
+
+  switch (encoding) {
+    case 'edge':
+      return { visit: maxEdge, flow: 2 * maxEdge, capacity: 2 * maxEdge };
+    case 'position':
+      return { visit: 2 * maxEdge, flow: maxEdge, capacity: 2 * maxEdge };
+    case 'two-stage':
+      return { visit: problem.nodes.length * maxEdge, flow: maxEdge, capacity: problem.nodes.length * maxEdge };
+  }
+}
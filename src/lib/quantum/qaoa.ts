@@ -1,10 +1,61 @@
 
-import { VRPProblem, VRPSolution, QAOAParams, QuboMatrix } from '../types';
-import { vrpToQubo, decodeSolution } from './qubo';
+import { Route, VRPProblem, VRPSolution, QAOAParams, SparseQubo, QuantumMetrics, PenaltyWeights, EncodingType } from '../types';
+import { minimize, OptimizerResult } from './optimizers';
+import { isFeasibleSolution, quboToIsing, restrictQubo, scheduleRoute } from './qubo';
+import { EncodedProblem, ENCODING_NAMES, encodeProblem, clusterSubproblem, qubitCounts } from './encodings';
+import {
+  DEFAULT_PENALTY,
+  PENALTY_SWEEP_SCALES,
+  uniformPenalties,
+  scalePenalties,
+  maxEdgePenalties
+} from './penalties';
+import { DecodedSample, decodeSamples, rankSamples, sampleStatistics, toBitstring } from './samples';
+import { getNoiseProfile, sampleNoisyQAOA } from './noise';
+import { SAMPLER_NAMES, SamplerRun, createYielder, sampleQubo } from './samplers';
+import { ANNEAL_SCHEDULES, isAnnealerBackend, annealIsing } from './annealing';
+import { RandomSource, createRandom, randomSeed } from '../random';
+import {
+  MAX_STATEVECTOR_QUBITS,
+  diagonalEnergies,
+  uniformSuperposition,
+  applyCostLayer,
+  applyMixerLayer,
+  probabilities,
+  expectationValue,
+  sampleCounts,
+  Statevector
+} from './statevector';
 
 /**
- * Mocked QAOA solver for VRP
- * In a real implementation, this would use Qiskit to create and run a QAOA circuit
+ * Solves VRP with QAOA on an in-browser statevector simulator
+ * 
+ * The cost Hamiltonian is the diagonal of the QUBO in the selected encoding. The
+ * circuit prepares |+>^n and applies p alternating cost/mixer layers. A
+ * classical optimizer tunes the 2p angles to minimize <H_C>, starting from a
+ * linear ramp; the tuned circuit is then measured `shots` times and every
+ * distinct bitstring is decoded into routes. The shortest feasible one is
+ * returned, or the lowest-energy one marked infeasible if none is feasible.
+ * 
+ * The two-stage encoding runs this once to assign customers to vehicles and
+ * then once per vehicle on a position-based QUBO of its own customers; the
+ * metrics describe the first stage.
+ * 
+ * Angles are always tuned on the ideal simulator. The simulator backends
+ * sample the ideal state; the hardware backends sample the same tuned circuit
+ * through a trajectory simulation of the device's noise profile, so the two
+ * can be compared on the same angles.
+ * 
+ * With a classical sampler selected the circuit is skipped: simulated
+ * annealing, parallel tempering or greedy descent reads the same QUBO
+ * `shots` times, and the reads are decoded exactly like measured bitstrings,
+ * so the samplers can be compared on equal terms. An annealer backend
+ * likewise skips the circuit and reads the QUBO's Ising form with a
+ * path-integral simulation of a quantum anneal. Neither is bound by the
+ * simulator's qubit limit.
+ * 
+ * Every random draw of the run comes from one stream seeded with
+ * `params.seed`, so the same seed and settings replay it exactly.
  * 
  * @param problem The VRP problem to solve
  * @param params QAOA parameters
@@ -14,20 +65,62 @@ export async function solveVRPWithQAOA(
   problem: VRPProblem, 
   params: QAOAParams
 ): Promise<VRPSolution> {
-  console.log(`Solving VRP with QAOA (p=${params.p}, backend=${params.backend}, shots=${params.shots})`);
+  console.log(usesCircuit(params)
+    ? `Solving VRP with QAOA (p=${params.p}, backend=${params.backend}, shots=${params.shots}, encoding=${params.encoding})`
+    : params.sampler === 'qaoa'
+      ? `Solving VRP by annealing (${ANNEAL_SCHEDULES[params.annealSchedule]}, slices=${params.trotterSlices}, sweeps=${params.sweeps}, shots=${params.shots}, encoding=${params.encoding})`
+      : `Solving VRP with ${SAMPLER_NAMES[params.sampler]} (sweeps=${params.sweeps}, shots=${params.shots}, encoding=${params.encoding})`);
   
   const startTime = performance.now();
   
-  // Step 1: Convert to QUBO
-  const quboMatrix = vrpToQubo(problem);
+  // A circuit too large for the simulator is refused before its QUBO is built,
+  // which on large instances is itself slow
+  if (usesCircuit(params)) {
+    const counts = qubitCounts(problem);
+    const numQubits = params.encoding === 'edge'
+      ? counts.edge
+      : params.encoding === 'position' ? counts.position : counts.assignment;
+    assertSimulable(numQubits, params.encoding);
+  }
+  
+  // Step 1: Convert to QUBO in the selected encoding, with penalties from the selected strategy
+  // One random stream for the whole run, so the seed replays it exactly
+  const random = createRandom(params.seed);
+  const { penalties, sweep } = await choosePenalties(problem, params, random);
+  const encoded = encodeProblem(problem, params.encoding, penalties);
   
-  // Step 2: Mock QAOA algorithm execution
-  const solution = mockQAOAExecution(quboMatrix, problem, params);
+  // Steps 2-5: Tune, sample and decode
+  const run = await runSampler(encoded, problem, params, random);
+  let routes = rankSamples(run.samples)[0]?.routes ?? [];
   
-  // Step 3: Decode the binary solution into routes
-  const routes = decodeSolution(solution, problem);
+  // Step 6 (two-stage only): order each vehicle's customers with its own QAOA run
+  let routingQubits: number[] | undefined;
+  if (params.encoding === 'two-stage') {
+    routingQubits = [];
+    const ordered: Route[] = [];
+    for (const route of routes) {
+      const { subproblem, nodeMap } = clusterSubproblem(problem, route);
+      const stage2Params: QAOAParams = { ...params, encoding: 'position' };
+      const stage2 = encodeProblem(subproblem, 'position', (await choosePenalties(subproblem, stage2Params, random)).penalties);
+      if (usesCircuit(params) && stage2.variables.length > MAX_STATEVECTOR_QUBITS) {
+        throw new Error(
+          `Vehicle ${route.vehicleId} was assigned ${nodeMap.length - 1} customers; ordering them needs ` +
+          `${stage2.variables.length} qubits, more than the simulator's ${MAX_STATEVECTOR_QUBITS}. Add vehicles or remove nodes.`
+        );
+      }
+      routingQubits.push(stage2.variables.length);
+      
+      // Keep the nearest-neighbour order from stage 1 if no sample is a valid tour
+      const best = rankSamples((await runSampler(stage2, subproblem, stage2Params, random)).samples)[0];
+      ordered.push(best?.feasible
+        ? { ...route, path: best.routes[0].path.map(node => nodeMap[node]), distance: best.distance }
+        : route);
+    }
+    routes = ordered;
+  }
   
-  // Calculate total distance
+  // Time each stop and calculate total distance
+  routes = routes.map(route => scheduleRoute(route, problem));
   const totalDistance = routes.reduce((sum, route) => sum + route.distance, 0);
   
   const executionTime = performance.now() - startTime;
@@ -36,106 +129,372 @@ export async function solveVRPWithQAOA(
     routes,
     totalDistance,
     executionTime,
-    solver: 'quantum'
+    solver: 'quantum',
+    feasible: isFeasibleSolution(routes, problem),
+    seed: params.seed,
+    quantumMetrics: {
+      source: 'simulated',
+      encoding: params.encoding,
+      numQubits: encoded.variables.length,
+      routingQubits,
+      penaltyStrategy: params.penaltyStrategy,
+      penalties,
+      penaltySweep: sweep,
+      sampler: params.sampler,
+      backend: params.sampler === 'qaoa' ? params.backend : undefined,
+      noisy: run.noisy,
+      anneal: params.sampler === 'qaoa' && isAnnealerBackend(params.backend)
+        ? { schedule: params.annealSchedule, trotterSlices: params.trotterSlices, sweeps: params.sweeps }
+        : undefined,
+      optimizer: usesCircuit(params) ? params.optimizer : undefined,
+      gammas: run.gammas,
+      betas: run.betas,
+      iterations: run.optimization.iterations,
+      evaluations: run.optimization.evaluations,
+      convergence: run.optimization.trace.map((energy, i) => ({ iteration: i + 1, energy })),
+      layerExpectations: run.layerExpectations,
+      ...sampleStatistics(run.samples)
+    }
+  };
+}
+
+type QAOARun = {
+  samples: DecodedSample[];
+  gammas: number[];
+  betas: number[];
+  optimization: OptimizerResult;
+  layerExpectations: { layer: number; energy: number }[];
+  noisy: boolean;
+};
+
+/**
+ * Samples one encoded QUBO with the selected sampler
+ * 
+ * @param encoded The encoded problem
+ * @param problem The VRP problem it encodes
+ * @param params QAOA parameters
+ * @param random Random source
+ * @returns Decoded samples, with angles and optimizer trace for QAOA
+ */
+async function runSampler(
+  encoded: EncodedProblem,
+  problem: VRPProblem,
+  params: QAOAParams,
+  random: RandomSource
+): Promise<QAOARun> {
+  if (usesCircuit(params)) return runQAOA(encoded, problem, params, random);
+  
+  // The trace records energy per sweep in place of the optimizer's
+  const { counts, trace } = await sampleWithoutCircuit(encoded, params, random);
+  return {
+    samples: decodeSamples(counts, encoded, problem),
+    gammas: [],
+    betas: [],
+    optimization: {
+      x: [],
+      value: trace[trace.length - 1] ?? 0,
+      iterations: trace.length,
+      evaluations: 0,
+      trace
+    },
+    layerExpectations: [],
+    noisy: false
   };
 }
 
 /**
- * Mock QAOA circuit execution
- * This simulates the behavior of a quantum algorithm with some randomness
+ * Whether the selected sampler and backend run the QAOA circuit
+ * 
+ * @param params QAOA parameters
+ * @returns False for the classical samplers and the annealer backends
+ */
+function usesCircuit(params: QAOAParams): boolean {
+  return params.sampler === 'qaoa' && !isAnnealerBackend(params.backend);
+}
+
+/**
+ * Reads an encoded QUBO with a classical sampler, or anneals its Ising form
+ * on an annealer backend
+ * 
+ * @param encoded The encoded problem
+ * @param params QAOA parameters, with a sampler or backend that skips the circuit
+ * @param random Random source
+ * @returns Reads per bitstring and an energy trace
+ */
+async function sampleWithoutCircuit(encoded: EncodedProblem, params: QAOAParams, random: RandomSource): Promise<SamplerRun> {
+  const { qubo, variables } = encoded;
+  if (params.sampler === 'qaoa') {
+    const ising = quboToIsing(qubo, variables);
+    return annealIsing(ising, params.annealSchedule, params.trotterSlices, params.sweeps, params.shots, random);
+  }
+  return sampleQubo(restrictQubo(qubo, variables), params.sampler, params.shots, params.sweeps, random);
+}
+
+/**
+ * Tunes and samples the QAOA circuit for one encoded QUBO
+ * 
+ * @param encoded The encoded problem
+ * @param problem The VRP problem it encodes
+ * @param params QAOA parameters
+ * @param random Random source for SPSA and sampling
+ * @returns Decoded samples, tuned angles and optimizer trace
+ */
+async function runQAOA(
+  encoded: EncodedProblem,
+  problem: VRPProblem,
+  params: QAOAParams,
+  random: RandomSource
+): Promise<QAOARun> {
+  const { qubo, variables } = encoded;
+  assertSimulable(encoded.variables.length, encoded.encoding);
+  
+  // Tune the 2p angles with the classical optimizer loop
+  const energies = diagonalEnergies(qubo, variables);
+  const scale = costScale(qubo, variables);
+  const ramp = linearRampAngles(params.p);
+  
+  // Cost angles are optimized in units of 1/scale
+  const splitAngles = (angles: number[]) => ({
+    gammas: angles.slice(0, params.p).map(g => g / scale),
+    betas: angles.slice(params.p)
+  });
+  const objective = (angles: number[]) => {
+    const { gammas, betas } = splitAngles(angles);
+    return expectationValue(runQAOACircuit(energies, gammas, betas), energies);
+  };
+  
+  const optimization = minimize(params.optimizer, objective, [...ramp.gammas, ...ramp.betas], {
+    maxIterations: params.maxIterations,
+    tolerance: params.tolerance,
+    random
+  });
+  const { gammas, betas } = splitAngles(optimization.x);
+  
+  // Sample bitstrings from the tuned circuit, recording the ideal <H_C> after each layer
+  const layerExpectations: { layer: number; energy: number }[] = [];
+  const probs = runQAOACircuit(energies, gammas, betas, (layer, state) => {
+    layerExpectations.push({ layer, energy: expectationValue(probabilities(state), energies) });
+  });
+  const noiseProfile = getNoiseProfile(params.backend);
+  const stateCounts = noiseProfile
+    ? await sampleNoisyQAOA(quboToIsing(qubo, variables), energies, gammas, betas, noiseProfile, params.shots, random)
+    : sampleCounts(probs, params.shots, random);
+  const counts = new Map(
+    [...stateCounts].map(([state, count]) => [toBitstring(state, variables.length), count])
+  );
+  
+  // Decode the measured bitstrings
+  return {
+    samples: decodeSamples(counts, encoded, problem),
+    gammas,
+    betas,
+    optimization,
+    layerExpectations,
+    noisy: noiseProfile !== undefined
+  };
+}
+
+/**
+ * Throws if a circuit has more qubits than the simulator supports
+ * 
+ * @param numQubits Qubits of the encoded problem
+ * @param encoding Its encoding, for the message
+ */
+function assertSimulable(numQubits: number, encoding: EncodingType): void {
+  if (numQubits > MAX_STATEVECTOR_QUBITS) {
+    throw new Error(
+      `This problem needs ${numQubits} qubits in the ${ENCODING_NAMES[encoding]} encoding; ` +
+      `the statevector simulator supports at most ${MAX_STATEVECTOR_QUBITS}. ` +
+      'Try another encoding or reduce the number of nodes or vehicles.'
+    );
+  }
+}
+
+/**
+ * Penalty weights of the fixed and max-edge strategies, one coefficient per
+ * constraint family scaled by the family multipliers; for the sweep, the
+ * max-edge bound its candidates are multiples of
+ * 
+ * @param problem The VRP problem
+ * @param params QAOA parameters
+ * @returns The penalty weights
+ */
+export function presetPenalties(problem: VRPProblem, params: QAOAParams): PenaltyWeights {
+  const { encoding, penaltyMultipliers } = params;
+  if (params.penaltyStrategy === 'fixed') return scalePenalties(uniformPenalties(params.penalty), penaltyMultipliers);
+  return scalePenalties(maxEdgePenalties(problem, encoding), penaltyMultipliers);
+}
+
+/**
+ * Picks the penalty weights for a problem with the selected strategy
+ * 
+ * The fixed and max-edge strategies take the preset weights. The sweep tries
+ * multiples of the max-edge bound on the untuned linear-ramp circuit, or with
+ * the selected classical sampler or annealer, and keeps the one whose shots
+ * are most often feasible, the smallest on a tie since larger penalties
+ * squeeze the distance objective into a narrower band of the energy
+ * spectrum. It yields to the browser between candidates.
  * 
- * @param quboMatrix The QUBO matrix
  * @param problem The VRP problem
  * @param params QAOA parameters
- * @returns Binary solution vector
+ * @param random Random source; a fresh one from the parameters' seed by default
+ * @returns The penalty weights, and the scored candidates for the sweep
  */
-function mockQAOAExecution(
-  quboMatrix: QuboMatrix, 
+export async function choosePenalties(
   problem: VRPProblem,
-  params: QAOAParams
-): number[] {
-  const { nodes, vehicles } = problem;
-  const n = nodes.length;
-  const v = vehicles.length;
-  const numVars = n * n * v;
-  
-  // Initialize solution vector
-  const solution = Array(numVars).fill(0);
-  
-  let remainingNodes = new Set([...Array(n).keys()].slice(1)); // All nodes except depot
-  
-  for (let veh = 0; veh < v && remainingNodes.size > 0; veh++) {
-    let currentNode = 0; // Start at depot
-    
-    while (remainingNodes.size > 0) {
-      // Find the closest unvisited node (with some randomness)
-      let bestNode = -1;
-      let bestDist = Infinity;
-      
-      for (const nextNode of remainingNodes) {
-        const dist = problem.distanceMatrix[currentNode][nextNode];
-        // Add some randomness to simulate quantum behavior
-        const randomFactor = 1 + (Math.random() * 0.5 - 0.25);
-        const adjustedDist = dist * randomFactor;
-        
-        if (adjustedDist < bestDist) {
-          bestDist = adjustedDist;
-          bestNode = nextNode;
-        }
-      }
-      
-      if (bestNode !== -1) {
-        // Set the corresponding binary variable to 1
-        const idx = currentNode * n * v + bestNode * v + veh;
-        solution[idx] = 1;
-        
-        remainingNodes.delete(bestNode);
-        currentNode = bestNode;
-      } else {
-        break;
-      }
-    }
-    
-    // Return to depot
-    if (currentNode !== 0) {
-      const idx = currentNode * n * v + 0 * v + veh;
-      solution[idx] = 1;
+  params: QAOAParams,
+  random: RandomSource = createRandom(params.seed)
+): Promise<{ penalties: PenaltyWeights; sweep?: QuantumMetrics['penaltySweep'] }> {
+  const { encoding } = params;
+  
+  const bound = presetPenalties(problem, params);
+  if (params.penaltyStrategy !== 'sweep') return { penalties: bound };
+  
+  const ramp = linearRampAngles(params.p);
+  const pause = createYielder();
+  
+  const sweep: NonNullable<QuantumMetrics['penaltySweep']> = [];
+  for (const scale of PENALTY_SWEEP_SCALES) {
+    await pause();
+    const encoded = encodeProblem(problem, encoding, scalePenalties(bound, uniformPenalties(scale)));
+    const { qubo, variables } = encoded;
+    let counts: Map<string, number>;
+    if (usesCircuit(params)) {
+      assertSimulable(encoded.variables.length, encoded.encoding);
+      const energies = diagonalEnergies(qubo, variables);
+      const gammaScale = costScale(qubo, variables);
+      const probs = runQAOACircuit(energies, ramp.gammas.map(g => g / gammaScale), ramp.betas);
+      counts = new Map(
+        [...sampleCounts(probs, params.shots, random)].map(([state, count]) => [toBitstring(state, variables.length), count])
+      );
+    } else {
+      counts = (await sampleWithoutCircuit(encoded, params, random)).counts;
     }
+    const { feasibleFraction } = sampleStatistics(decodeSamples(counts, encoded, problem));
+    sweep.push({ scale, feasibleFraction, chosen: false });
   }
   
-  return solution;
+  const best = sweep.reduce((a, b) => (b.feasibleFraction > a.feasibleFraction ? b : a));
+  best.chosen = true;
+  return { penalties: scalePenalties(bound, uniformPenalties(best.scale)), sweep };
 }
 
 /**
- * Get expectation metrics from QAOA execution
- * In a real implementation, these would be actual quantum metrics
+ * Penalty weights of the circuit for a problem outside a solver run, for
+ * export and for decoding imported counts
  * 
+ * These follow the current settings rather than the last run's. The fixed
+ * and max-edge weights are cheap to recompute; the sweep is not simulated
+ * again, since the circuit may be too large for the simulator: it reuses the
+ * scale the last run chose with the same encoding, or the max-edge bound.
+ * 
+ * @param problem The VRP problem
  * @param params QAOA parameters
- * @returns Metrics object with energy levels, etc.
+ * @param metrics Metrics of a previous QAOA run, for the scale its sweep chose
+ * @returns The penalty weights
  */
-export function getQAOAMetrics(params: QAOAParams) {
-  // Mock metrics that would normally come from quantum execution
-  const layers = params.p;
+export function circuitPenalties(problem: VRPProblem, params: QAOAParams, metrics?: QuantumMetrics): PenaltyWeights {
+  const bound = presetPenalties(problem, params);
+  if (params.penaltyStrategy !== 'sweep') return bound;
   
-  return {
-    energyLevels: Array(layers).fill(0).map((_, i) => ({
-      layer: i + 1,
-      energy: -10 * (1 - Math.exp(-0.5 * (i + 1)))
-    })),
-    convergence: Array(20).fill(0).map((_, i) => ({
-      iteration: i + 1,
-      energy: -10 * (1 - Math.exp(-0.1 * (i + 1)))
-    })),
-    eigenvalues: [-9.8, -7.5, -5.2, -3.1, -1.8, 0.3, 2.5, 4.7],
-    probabilities: [
-      { state: '000', prob: 0.02 },
-      { state: '001', prob: 0.03 },
-      { state: '010', prob: 0.05 },
-      { state: '011', prob: 0.05 },
-      { state: '100', prob: 0.10 },
-      { state: '101', prob: 0.15 },
-      { state: '110', prob: 0.20 },
-      { state: '111', prob: 0.40 }
-    ]
-  };
+  const chosen = metrics?.encoding === params.encoding ? metrics.penaltySweep?.find(candidate => candidate.chosen) : undefined;
+  return chosen ? scalePenalties(bound, uniformPenalties(chosen.scale)) : bound;
+}
+
+/**
+ * Default QAOA settings used by the UI
+ */
+export const defaultQAOAParams: QAOAParams = {
+  p: 1,
+  backend: 'qasm_simulator',
+  shots: 1000,
+  optimizer: 'cobyla',
+  encoding: 'edge',
+  penaltyStrategy: 'max-edge',
+  penalty: DEFAULT_PENALTY,
+  penaltyMultipliers: uniformPenalties(1),
+  maxIterations: 50,
+  tolerance: 1e-3,
+  sampler: 'qaoa',
+  sweeps: 100,
+  annealSchedule: 'linear',
+  trotterSlices: 20,
+  seed: randomSeed()
+};
+
+/**
+ * Linear-ramp angle schedule, a discretized annealing path:
+ * gamma rises and beta falls across the p layers
+ * 
+ * @param p Number of QAOA layers
+ * @param step Ramp step size
+ * @returns Cost and mixer angles for each layer
+ */
+export function linearRampAngles(p: number, step: number = 0.75): { gammas: number[]; betas: number[] } {
+  const gammas: number[] = [];
+  const betas: number[] = [];
+  
+  for (let layer = 0; layer < p; layer++) {
+    const t = (layer + 0.5) / p;
+    gammas.push(t * step);
+    betas.push((1 - t) * step);
+  }
+  
+  return { gammas, betas };
+}
+
+/**
+ * Largest absolute QUBO coefficient among the simulated variables
+ * Cost angles are expressed in units of this value so that the same
+ * schedule works regardless of the distance scale
+ * 
+ * @param qubo The QUBO
+ * @param variables QUBO variable index for each qubit
+ * @returns Normalization factor for gamma
+ */
+export function costScale(qubo: SparseQubo, variables: number[]): number {
+  let scale = 0;
+  
+  for (const weight of restrictQubo(qubo, variables).terms.values()) {
+    scale = Math.max(scale, Math.abs(weight));
+  }
+  
+  return scale || 1;
+}
+
+/**
+ * Simulates the QAOA circuit: Hadamard layer, then p cost/mixer layers
+ * 
+ * @param energies Diagonal of the cost Hamiltonian
+ * @param gammas Cost angles, one per layer
+ * @param betas Mixer angles, one per layer
+ * @param onLayer Called with the state after each completed layer
+ * @returns Measurement probabilities of the final state
+ */
+function runQAOACircuit(
+  energies: Float64Array,
+  gammas: number[],
+  betas: number[],
+  onLayer?: (layer: number, state: Statevector) => void
+): Float64Array {
+  const numQubits = Math.log2(energies.length);
+  const state = uniformSuperposition(numQubits);
+  
+  for (let layer = 0; layer < gammas.length; layer++) {
+    applyCostLayer(state, energies, gammas[layer]);
+    applyMixerLayer(state, betas[layer]);
+    onLayer?.(layer + 1, state);
+  }
+  
+  return probabilities(state);
+}
+
+/**
+ * Get expectation metrics from a QAOA run
+ * 
+ * @param solution The quantum solution, if one has been computed
+ * @returns The metrics recorded by the solver, or null if there are none
+ */
+export function getQAOAMetrics(solution?: VRPSolution): QuantumMetrics | null {
+  return solution?.quantumMetrics ?? null;
 }
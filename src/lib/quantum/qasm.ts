@@ -0,0 +1,173 @@
+import { VRPProblem, QAOAParams, QuantumMetrics, PenaltyWeights } from '../types';
+import { quboToIsing } from './qubo';
+import { linearRampAngles, costScale, circuitPenalties } from './qaoa';
+import { encodeProblem, ENCODING_NAMES } from './encodings';
+
+export type QasmVersion = '2.0' | '3.0';
+
+export type CircuitGate =
+  | { name: 'h' | 'measure'; qubits: [number] }
+  | { name: 'rz' | 'rx'; qubits: [number]; angle: number }
+  | { name: 'rzz'; qubits: [number, number]; angle: number };
+
+export type QAOACircuit = {
+  numQubits: number;
+  gates: CircuitGate[];
+  gammas: number[];
+  betas: number[];
+  qubitLabels: string[]; // QUBO variable carried by each qubit
+  penalties: PenaltyWeights;
+};
+
+/**
+ * Builds the gate-level QAOA circuit for a VRP problem
+ *
+ * The cost layer comes from the Ising form of the QUBO: RZ(2 * gamma * h_i)
+ * on each qubit and RZZ(2 * gamma * J_ij) on each coupled pair; the Ising
+ * offset only contributes a global phase and is dropped. The mixer is
+ * RX(2 * beta) on every qubit.
+ *
+ * When the problem has already been solved with the same encoding and number
+ * of layers the tuned angles are used; otherwise the linear-ramp starting
+ * point. For the two-stage encoding this is the stage 1 assignment circuit.
+ *
+ * @param problem The VRP problem
+ * @param params QAOA parameters
+ * @param metrics Metrics of a previous QAOA run, for its tuned angles and penalties
+ * @returns The circuit
+ */
+export function buildQAOACircuit(
+  problem: VRPProblem,
+  params: QAOAParams,
+  metrics?: QuantumMetrics
+): QAOACircuit {
+  const penalties = circuitPenalties(problem, params, metrics);
+  const { qubo, variables, labels } = encodeProblem(problem, params.encoding, penalties);
+  const ising = quboToIsing(qubo, variables);
+  const numQubits = variables.length;
+
+  let gammas: number[];
+  let betas: number[];
+  if (metrics && metrics.encoding === params.encoding && metrics.gammas.length === params.p) {
+    ({ gammas, betas } = metrics);
+  } else {
+    const ramp = linearRampAngles(params.p);
+    const scale = costScale(qubo, variables);
+    gammas = ramp.gammas.map(g => g / scale);
+    betas = ramp.betas;
+  }
+
+  const gates: CircuitGate[] = [];
+
+  for (let q = 0; q < numQubits; q++) {
+    gates.push({ name: 'h', qubits: [q] });
+  }
+
+  for (let layer = 0; layer < params.p; layer++) {
+    ising.h.forEach((h, q) => {
+      if (h !== 0) gates.push({ name: 'rz', qubits: [q], angle: 2 * gammas[layer] * h });
+    });
+    for (const { i, j, value } of ising.J) {
+      gates.push({ name: 'rzz', qubits: [i, j], angle: 2 * gammas[layer] * value });
+    }
+    for (let q = 0; q < numQubits; q++) {
+      gates.push({ name: 'rx', qubits: [q], angle: 2 * betas[layer] });
+    }
+  }
+
+  for (let q = 0; q < numQubits; q++) {
+    gates.push({ name: 'measure', qubits: [q] });
+  }
+
+  return { numQubits, gates, gammas, betas, qubitLabels: labels, penalties };
+}
+
+/**
+ * Serializes a QAOA circuit as OpenQASM
+ *
+ * Measured bits land in c[k] for qubit k, so Qiskit's `get_counts()` keys
+ * read with qubit 0 rightmost, the same ordering the app uses.
+ *
+ * @param circuit The circuit
+ * @param version OpenQASM 2.0 or 3.0
+ * @param problem The VRP problem, described in the header comment
+ * @param params QAOA parameters, described in the header comment
+ * @returns The program text
+ */
+export function toOpenQASM(
+  circuit: QAOACircuit,
+  version: QasmVersion,
+  problem: VRPProblem,
+  params: QAOAParams
+): string {
+  const { numQubits } = circuit;
+  const qasm2 = version === '2.0';
+  const lines: string[] = [];
+  const formatNumber = (angle: number) => Number(angle.toPrecision(12)).toString();
+  const q = (k: number) => `q[${k}]`;
+
+  const numVehicles = problem.vehicles.length;
+  lines.push(`// QAOA circuit for a VRP with ${problem.nodes.length} nodes and ${numVehicles} vehicle${numVehicles === 1 ? '' : 's'}`);
+  lines.push(`// ${ENCODING_NAMES[params.encoding]} encoding${params.encoding === 'two-stage' ? ', stage 1 (customer to vehicle assignment)' : ''}`);
+  lines.push(`// p = ${params.p}, suggested shots = ${params.shots}`);
+  const penalties = Object.entries(circuit.penalties).map(([family, weight]) => `${family} = ${formatNumber(weight)}`);
+  lines.push(`// penalties: ${penalties.join(', ')}`);
+  lines.push(`// gammas = [${circuit.gammas.map(formatNumber).join(', ')}]`);
+  lines.push(`// betas = [${circuit.betas.map(formatNumber).join(', ')}]`);
+  lines.push('// Qubit to QUBO variable map:');
+  circuit.qubitLabels.forEach((label, k) => lines.push(`//   q[${k}] = ${label}`));
+
+  if (qasm2) {
+    lines.push('OPENQASM 2.0;');
+    lines.push('include "qelib1.inc";');
+    lines.push(`qreg q[${numQubits}];`);
+    lines.push(`creg c[${numQubits}];`);
+  } else {
+    lines.push('OPENQASM 3.0;');
+    lines.push('include "stdgates.inc";');
+    // stdgates.inc has no rzz; this matches qelib1.inc's definition
+    lines.push('gate rzz(theta) a, b { cx a, b; rz(theta) b; cx a, b; }');
+    lines.push(`qubit[${numQubits}] q;`);
+    lines.push(`bit[${numQubits}] c;`);
+  }
+
+  for (const gate of circuit.gates) {
+    switch (gate.name) {
+      case 'h':
+        lines.push(`h ${q(gate.qubits[0])};`);
+        break;
+      case 'rz':
+      case 'rx':
+        lines.push(`${gate.name}(${formatNumber(gate.angle)}) ${q(gate.qubits[0])};`);
+        break;
+      case 'rzz':
+        lines.push(`rzz(${formatNumber(gate.angle)}) ${q(gate.qubits[0])}, ${q(gate.qubits[1])};`);
+        break;
+      case 'measure':
+        lines.push(qasm2
+          ? `measure ${q(gate.qubits[0])} -> c[${gate.qubits[0]}];`
+          : `c[${gate.qubits[0]}] = measure ${q(gate.qubits[0])};`);
+        break;
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports the QAOA circuit for a problem as OpenQASM
+ *
+ * @param problem The VRP problem
+ * @param params QAOA parameters
+ * @param version OpenQASM 2.0 or 3.0
+ * @param metrics Metrics of a previous QAOA run, for its tuned angles
+ * @returns The program text
+ */
+export function exportQAOACircuit(
+  problem: VRPProblem,
+  params: QAOAParams,
+  version: QasmVersion,
+  metrics?: QuantumMetrics
+): string {
+  return toOpenQASM(buildQAOACircuit(problem, params, metrics), version, problem, params);
+}
@@ -1,5 +1,8 @@
 
-import { DistanceMatrix, QuboMatrix, VRPProblem, Route, Node } from '../types';
+import { DistanceMatrix, SparseQubo, IsingModel, IsingCoupling, VRPProblem, Route, Node, PenaltyWeights, StopTime } from '../types';
+import { RandomSource } from '../random';
+import { classicalMDS, smacof } from '../layout';
+import { DEFAULT_PENALTY, uniformPenalties } from './penalties';
 
 /**
  * Converts a Vehicle Routing Problem into a QUBO matrix
@@ -10,30 +13,46 @@ import { DistanceMatrix, QuboMatrix, VRPProblem, Route, Node } from '../types';
  * - v is the vehicle
  * 
  * The objective is to minimize the total distance traveled
- * Subject to constraints:
- * - Each node must be visited exactly once
- * - Each vehicle must form a valid route (continuity)
+ * Subject to constraints, each a squared penalty in its family's weight:
+ * - visit: each customer is entered exactly once and left exactly once
+ * - flow: a vehicle that enters a node leaves it, each vehicle leaves the
+ *   depot at most once, and no two customers loop between themselves
+ * - capacity: the demand of the nodes a vehicle enters, plus slack
+ *   variables after the x_{i,j,v}, equals its capacity
+ * 
+ * Longer subtours that skip the depot satisfy every constraint; the decoder
+ * only follows routes from the depot, so their customers decode as
+ * unvisited.
  * 
  * @param problem The VRP problem definition
- * @param penalty The penalty coefficient for constraints
- * @returns The QUBO matrix
+ * @param penalties The penalty coefficient of each constraint family
+ * @returns The sparse QUBO
  */
-export function vrpToQubo(problem: VRPProblem, penalty: number = 10.0): QuboMatrix {
+export function vrpToQubo(problem: VRPProblem, penalties: PenaltyWeights = uniformPenalties(DEFAULT_PENALTY)): SparseQubo {
   const { nodes, vehicles, distanceMatrix } = problem;
   const n = nodes.length;
   const v = vehicles.length;
   
-  // The total number of binary variables is n^2 * v
-  const numVars = n * n * v;
+  // The total number of binary variables is n^2 * v, plus the capacity slack bits
+  const numEdgeVars = n * n * v;
+  const numVars = numEdgeVars + capacitySlack(problem).flat().length;
   
-  // Initialize QUBO matrix with zeros
-  const Q: QuboMatrix = Array(numVars).fill(0).map(() => Array(numVars).fill(0));
+  // Only non-zero terms are stored
+  const Q = createQubo(numVars);
   
   // Map (i,j,v) to a linear index
   const index = (i: number, j: number, veh: number) => {
     return i * n * v + j * v + veh;
   };
   
+  // penalty * (sum of vars - 1)^2, dropping the constant
+  const exactlyOne = (vars: number[], penalty: number) => {
+    vars.forEach((a, k) => {
+      addQuboTerm(Q, a, a, -penalty);
+      for (const b of vars.slice(k + 1)) addQuboTerm(Q, a, b, 2 * penalty);
+    });
+  };
+  
   // 1. Objective function: Minimize total distance
   for (let i = 0; i < n; i++) {
     for (let j = 0; j < n; j++) {
@@ -41,94 +60,286 @@ export function vrpToQubo(problem: VRPProblem, penalty: number = 10.0): QuboMatr
         const distance = distanceMatrix[i][j];
         for (let veh = 0; veh < v; veh++) {
           const idx = index(i, j, veh);
-          Q[idx][idx] += distance;
+          addQuboTerm(Q, idx, idx, distance);
         }
       }
     }
   }
   
-  // 2. Constraint: Each node must be visited exactly once (as destination)
-  for (let j = 0; j < n; j++) {
-    // Skip depot for this constraint
-    if (j === 0) continue;
-    
-    // Add penalty for each pair of variables that would violate this constraint
-    for (let i1 = 0; i1 < n; i1++) {
-      for (let v1 = 0; v1 < v; v1++) {
-        const idx1 = index(i1, j, v1);
-        
-        // Linear term to enforce sum = 1
-        Q[idx1][idx1] += penalty * (1 - 2);
-        
-        // Quadratic terms to enforce sum = 1
-        for (let i2 = 0; i2 < n; i2++) {
-          for (let v2 = 0; v2 < v; v2++) {
-            if (i1 === i2 && v1 === v2) continue;
-            const idx2 = index(i2, j, v2);
-            Q[idx1][idx2] += penalty * 2;
-          }
-        }
+  // 2. Constraint: Each customer is entered and left exactly once
+  for (let k = 1; k < n; k++) {
+    const incoming: number[] = [];
+    const outgoing: number[] = [];
+    for (let other = 0; other < n; other++) {
+      if (other === k) continue;
+      for (let veh = 0; veh < v; veh++) {
+        incoming.push(index(other, k, veh));
+        outgoing.push(index(k, other, veh));
       }
     }
+    exactlyOne(incoming, penalties.visit);
+    exactlyOne(outgoing, penalties.visit);
   }
   
-  // 3. Constraint: Each node must be visited exactly once (as source)
-  for (let i = 0; i < n; i++) {
-    // Skip depot for this constraint
-    if (i === 0) continue;
-    
-    // Add penalty for each pair of variables that would violate this constraint
-    for (let j1 = 0; j1 < n; j1++) {
-      for (let v1 = 0; v1 < v; v1++) {
-        if (i === j1) continue;
-        const idx1 = index(i, j1, v1);
-        
-        // Linear term to enforce sum = 1
-        Q[idx1][idx1] += penalty * (1 - 2);
-        
-        // Quadratic terms to enforce sum = 1
-        for (let j2 = 0; j2 < n; j2++) {
-          for (let v2 = 0; v2 < v; v2++) {
-            if (j1 === j2 && v1 === v2) continue;
-            if (i === j2) continue;
-            const idx2 = index(i, j2, v2);
-            Q[idx1][idx2] += penalty * 2;
-          }
-        }
+  // 3. Constraint: Route continuity, penalty * (in - out)^2 per node and vehicle
+  for (let k = 0; k < n; k++) {
+    for (let veh = 0; veh < v; veh++) {
+      const signed: [number, number][] = [];
+      for (let other = 0; other < n; other++) {
+        if (other === k) continue;
+        signed.push([index(other, k, veh), 1], [index(k, other, veh), -1]);
       }
+      signed.forEach(([a, sa], m) => {
+        addQuboTerm(Q, a, a, penalties.flow);
+        for (const [b, sb] of signed.slice(m + 1)) addQuboTerm(Q, a, b, 2 * penalties.flow * sa * sb);
+      });
     }
   }
   
-  // 4. Constraint: Route continuity
-  for (let k = 0; k < n; k++) {
-    if (k === 0) continue;  // Skip depot
-    
-    for (let veh = 0; veh < v; veh++) {
-      // For each non-depot node k and vehicle veh
-      // Sum of incoming edges must equal sum of outgoing edges
-      
-      for (let i = 0; i < n; i++) {
-        if (i === k) continue;
-        const in_idx = index(i, k, veh);
-        
-        for (let j = 0; j < n; j++) {
-          if (j === k) continue;
-          const out_idx = index(k, j, veh);
-          
-          // Linear terms
-          Q[in_idx][in_idx] += penalty;
-          Q[out_idx][out_idx] += penalty;
-          
-          // Cross-terms (negative to cancel when both are 1)
-          Q[in_idx][out_idx] -= penalty * 2;
+  // 4. Constraint: Each vehicle leaves the depot at most once
+  for (let veh = 0; veh < v; veh++) {
+    for (let j1 = 1; j1 < n; j1++) {
+      for (let j2 = j1 + 1; j2 < n; j2++) {
+        addQuboTerm(Q, index(0, j1, veh), index(0, j2, veh), penalties.flow);
+      }
+    }
+  }
+  
+  // 5. Constraint: No two customers form a loop of their own, away from the depot
+  for (let i = 1; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      for (let v1 = 0; v1 < v; v1++) {
+        for (let v2 = 0; v2 < v; v2++) {
+          addQuboTerm(Q, index(i, j, v1), index(j, i, v2), 2 * penalties.flow);
         }
       }
     }
   }
   
+  // 6. Constraint: Each vehicle's deliveries fit its capacity
+  addCapacityPenalty(Q, problem, numEdgeVars, veh => {
+    const load: [number, number][] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = 1; j < n; j++) {
+        if (i !== j) load.push([index(i, j, veh), nodes[j].demand ?? 0]);
+      }
+    }
+    return load;
+  }, penalties.capacity);
+  
   return Q;
 }
 
+/**
+ * Creates an empty sparse QUBO
+ * 
+ * @param numVars Number of binary variables
+ * @returns QUBO with no terms
+ */
+export function createQubo(numVars: number): SparseQubo {
+  return { numVars, terms: new Map() };
+}
+
+/**
+ * Adds a weight to the (i, j) term, folding (j, i) onto the upper triangle
+ * Terms that cancel to zero are removed
+ * 
+ * @param qubo The QUBO to modify
+ * @param i First variable
+ * @param j Second variable
+ * @param weight Weight to add
+ */
+export function addQuboTerm(qubo: SparseQubo, i: number, j: number, weight: number): void {
+  const key = i <= j ? i * qubo.numVars + j : j * qubo.numVars + i;
+  const value = (qubo.terms.get(key) || 0) + weight;
+  
+  if (value === 0) {
+    qubo.terms.delete(key);
+  } else {
+    qubo.terms.set(key, value);
+  }
+}
+
+/**
+ * Weight of the (i, j) term, in either order
+ * 
+ * @param qubo The QUBO
+ * @param i First variable
+ * @param j Second variable
+ * @returns The weight, 0 if the term is absent
+ */
+export function getQuboTerm(qubo: SparseQubo, i: number, j: number): number {
+  const key = i <= j ? i * qubo.numVars + j : j * qubo.numVars + i;
+  return qubo.terms.get(key) || 0;
+}
+
+/**
+ * Lists the non-zero terms as [i, j, weight] with i <= j
+ * 
+ * @param qubo The QUBO
+ * @returns The terms
+ */
+export function quboTerms(qubo: SparseQubo): [number, number, number][] {
+  return [...qubo.terms].map(([key, weight]) => [
+    Math.floor(key / qubo.numVars),
+    key % qubo.numVars,
+    weight
+  ]);
+}
+
+/**
+ * Restricts a QUBO to a subset of its variables, renumbered 0..k-1
+ * Variables outside the subset are held at 0 and their terms drop out
+ * 
+ * @param qubo The QUBO
+ * @param variables Variables to keep, in their new order
+ * @returns QUBO over the kept variables
+ */
+export function restrictQubo(qubo: SparseQubo, variables: number[]): SparseQubo {
+  const position = new Map(variables.map((variable, k) => [variable, k]));
+  const restricted = createQubo(variables.length);
+  
+  for (const [i, j, weight] of quboTerms(qubo)) {
+    const a = position.get(i);
+    const b = position.get(j);
+    if (a !== undefined && b !== undefined) addQuboTerm(restricted, a, b, weight);
+  }
+  
+  return restricted;
+}
+
+/**
+ * Size and sparsity of a QUBO
+ * 
+ * @param qubo The QUBO
+ * @returns Variable count, stored terms and the fraction of the upper triangle they fill
+ */
+export function quboStats(qubo: SparseQubo): { numVars: number; numTerms: number; density: number } {
+  const { numVars } = qubo;
+  const numTerms = qubo.terms.size;
+  
+  return { numVars, numTerms, density: numVars > 0 ? numTerms / ((numVars * (numVars + 1)) / 2) : 0 };
+}
+
+/**
+ * QUBO energy of a binary solution vector
+ * 
+ * @param qubo The QUBO
+ * @param solution Binary solution vector
+ * @returns The energy
+ */
+export function quboEnergy(qubo: SparseQubo, solution: number[]): number {
+  let energy = 0;
+  
+  for (const [i, j, weight] of quboTerms(qubo)) {
+    if (solution[i] === 1 && solution[j] === 1) energy += weight;
+  }
+  
+  return energy;
+}
+
+/**
+ * Converts a QUBO into an Ising model via x_i = (1 - z_i) / 2
+ * 
+ * For each diagonal term Q_ii and off-diagonal term Q_ij (i < j):
+ * - h_i = -Q_ii / 2 - sum_{j != i} Q_ij / 4
+ * - J_ij = Q_ij / 4
+ * - offset = sum_i Q_ii / 2 + sum_{i<j} Q_ij / 4
+ * 
+ * Variables outside `variables` are held at 0 and drop out of the model.
+ * 
+ * @param qubo The QUBO
+ * @param variables QUBO variable index for each spin (defaults to all variables)
+ * @param quboOffset Constant term of the QUBO, carried into the Ising offset
+ * @returns The equivalent Ising model over the selected variables
+ */
+export function quboToIsing(
+  qubo: SparseQubo,
+  variables?: number[],
+  quboOffset: number = 0
+): IsingModel {
+  const source = variables ? restrictQubo(qubo, variables) : qubo;
+  const h: number[] = Array(source.numVars).fill(0);
+  const J: IsingCoupling[] = [];
+  let offset = quboOffset;
+  
+  for (const [i, j, weight] of quboTerms(source)) {
+    if (i === j) {
+      h[i] -= weight / 2;
+      offset += weight / 2;
+    } else {
+      h[i] -= weight / 4;
+      h[j] -= weight / 4;
+      J.push({ i, j, value: weight / 4 });
+      offset += weight / 4;
+    }
+  }
+  
+  J.sort((a, b) => a.i - b.i || a.j - b.j);
+  
+  return { h, J, offset };
+}
+
+/**
+ * Converts an Ising model back into a QUBO via z_i = 1 - 2 x_i
+ * 
+ * - Q_ii = -2 h_i - 2 sum_{j adj i} J_ij
+ * - Q_ij = 4 J_ij (upper triangle)
+ * - offset = offset_Ising + sum_i h_i + sum_{i<j} J_ij
+ * 
+ * @param ising The Ising model
+ * @returns The QUBO and its constant offset
+ */
+export function isingToQubo(ising: IsingModel): { qubo: SparseQubo; offset: number } {
+  const Q = createQubo(ising.h.length);
+  let offset = ising.offset;
+  
+  ising.h.forEach((h, i) => {
+    addQuboTerm(Q, i, i, -2 * h);
+    offset += h;
+  });
+  
+  for (const { i, j, value } of ising.J) {
+    addQuboTerm(Q, i, j, 4 * value);
+    addQuboTerm(Q, i, i, -2 * value);
+    addQuboTerm(Q, j, j, -2 * value);
+    offset += value;
+  }
+  
+  return { qubo: Q, offset };
+}
+
+/**
+ * Ising energy of a spin configuration
+ * 
+ * @param ising The Ising model
+ * @param spins Spin values, +1 or -1
+ * @returns offset + sum_i h_i z_i + sum_{i<j} J_ij z_i z_j
+ */
+export function isingEnergy(ising: IsingModel, spins: number[]): number {
+  let energy = ising.offset;
+  
+  ising.h.forEach((h, i) => {
+    energy += h * spins[i];
+  });
+  
+  for (const { i, j, value } of ising.J) {
+    energy += value * spins[i] * spins[j];
+  }
+  
+  return energy;
+}
+
+/**
+ * Maps binary variables onto spins, z = 1 - 2x
+ * 
+ * @param solution Binary solution vector
+ * @returns Spin values, +1 for 0 and -1 for 1
+ */
+export function solutionToSpins(solution: number[]): number[] {
+  return solution.map(x => 1 - 2 * x);
+}
+
 /**
  * Encodes a solution vector back into vehicle routes
  * 
@@ -194,14 +405,187 @@ export function decodeSolution(solution: number[], problem: VRPProblem): Route[]
   return routes.filter(route => route.path.length > 2); // Filter out unused vehicles
 }
 
+/**
+ * Checks that decoded routes visit every customer exactly once and that no
+ * vehicle carries more than its capacity
+ * 
+ * @param routes Decoded routes
+ * @param problem The original VRP problem
+ * @returns True if the routes form a feasible VRP solution
+ */
+export function isFeasibleSolution(routes: Route[], problem: VRPProblem): boolean {
+  const visits = Array(problem.nodes.length).fill(0);
+  
+  for (const route of routes) {
+    for (const node of route.path) {
+      if (node !== 0) visits[node]++;
+    }
+    if (routeLoad(route.path, problem) > vehicleCapacity(route.vehicleId, problem)) return false;
+  }
+  
+  return visits.every((count, node) => node === 0 || count === 1);
+}
+
+/**
+ * Total demand of the nodes along a path
+ * 
+ * @param path Node indices
+ * @param problem The VRP problem
+ * @returns The load the vehicle leaves the depot with
+ */
+export function routeLoad(path: number[], problem: VRPProblem): number {
+  return path.reduce((load, node) => load + (node === 0 ? 0 : problem.nodes[node].demand ?? 0), 0);
+}
+
+/**
+ * Capacity of a vehicle
+ * 
+ * @param vehicleId The vehicle
+ * @param problem The VRP problem
+ * @returns Its capacity, Infinity if it has none
+ */
+export function vehicleCapacity(vehicleId: number, problem: VRPProblem): number {
+  return problem.vehicles.find(vehicle => vehicle.id === vehicleId)?.capacity ?? Infinity;
+}
+
+/**
+ * Travel time between two nodes
+ * 
+ * @param problem The VRP problem
+ * @param from Origin node
+ * @param to Destination node
+ * @returns Time from the travel-time matrix, or the distance if there is none
+ */
+export function travelTime(problem: VRPProblem, from: number, to: number): number {
+  return problem.travelTimeMatrix?.[from][to] ?? problem.distanceMatrix[from][to];
+}
+
+/**
+ * Whether any node has a time window
+ * 
+ * @param problem The VRP problem
+ * @returns True for a VRPTW
+ */
+export function hasTimeWindows(problem: VRPProblem): boolean {
+  return problem.nodes.some(node => node.earliest !== undefined || node.latest !== undefined);
+}
+
+/**
+ * Times a route: the vehicle leaves the depot as late as it can while still
+ * reaching the first stop when its window opens, waits wherever it arrives
+ * before a window opens, and is late wherever service begins after a window
+ * closes. Windows are soft here, so lateness is reported rather than
+ * rejected.
+ * 
+ * @param route The route
+ * @param problem The VRP problem
+ * @returns The route with its schedule, total waiting time and total lateness
+ */
+export function scheduleRoute(route: Route, problem: VRPProblem): Route {
+  const schedule: StopTime[] = [];
+  const { path } = route;
+  const first = problem.nodes[path[1]];
+  let time = 0;
+  
+  path.forEach((node, k) => {
+    const { earliest = 0, latest = Infinity, serviceTime = 0 } = problem.nodes[node];
+    const arrival = k === 0
+      ? Math.max(earliest, (first?.earliest ?? 0) - travelTime(problem, node, path[1] ?? node))
+      : time + travelTime(problem, path[k - 1], node);
+    const start = Math.max(arrival, earliest);
+    // No service time at the depot, where the route starts and ends
+    const departure = node === 0 ? start : start + serviceTime;
+    
+    schedule.push({ node, arrival, departure, waiting: start - arrival, lateness: Math.max(0, start - latest) });
+    time = departure;
+  });
+  
+  return {
+    ...route,
+    schedule,
+    waitingTime: schedule.reduce((sum, stop) => sum + stop.waiting, 0),
+    lateness: schedule.reduce((sum, stop) => sum + stop.lateness, 0)
+  };
+}
+
+/**
+ * Slack bits for each vehicle's capacity constraint
+ * 
+ * load + slack = capacity turns load <= capacity into an equality. The slack
+ * is binary with coefficients 1, 2, 4, ... and a last coefficient that tops
+ * the sum up to exactly the capacity, so it takes every value from 0 to the
+ * capacity and no more. A vehicle whose capacity covers the total demand
+ * can never be overloaded and gets no slack.
+ * 
+ * @param problem The VRP problem
+ * @returns Coefficient of each slack bit, per vehicle
+ */
+export function capacitySlack(problem: VRPProblem): number[][] {
+  const totalDemand = routeLoad(problem.nodes.map((_, node) => node), problem);
+  
+  return problem.vehicles.map(vehicle => {
+    const capacity = vehicle.capacity;
+    if (capacity === undefined || totalDemand <= capacity) return [];
+    
+    const coefficients: number[] = [];
+    let covered = 0;
+    for (let bit = 1; covered + bit < capacity; bit *= 2) {
+      coefficients.push(bit);
+      covered += bit;
+    }
+    coefficients.push(capacity - covered);
+    return coefficients;
+  });
+}
+
+/**
+ * Adds penalty * (load + slack - capacity)^2 for every vehicle that has
+ * slack bits, with the slack bits numbered consecutively from firstSlack
+ * in vehicle order
+ * 
+ * @param Q The QUBO to modify
+ * @param problem The VRP problem
+ * @param firstSlack Index of the first slack variable
+ * @param load Variables that add to a vehicle's load, with the demand each adds
+ * @param penalty The capacity penalty coefficient
+ */
+export function addCapacityPenalty(
+  Q: SparseQubo,
+  problem: VRPProblem,
+  firstSlack: number,
+  load: (veh: number) => [number, number][],
+  penalty: number
+): void {
+  let slack = firstSlack;
+  
+  capacitySlack(problem).forEach((coefficients, veh) => {
+    if (coefficients.length === 0) return;
+    
+    const terms: [number, number][] = [...load(veh), ...coefficients.map((c, k): [number, number] => [slack + k, c])];
+    const capacity = problem.vehicles[veh].capacity;
+    slack += coefficients.length;
+    
+    // (sum a_k y_k - C)^2 = sum (a_k^2 - 2 C a_k) y_k + sum_{k<l} 2 a_k a_l y_k y_l + C^2
+    terms.forEach(([a, wa], k) => {
+      addQuboTerm(Q, a, a, penalty * (wa * wa - 2 * capacity * wa));
+      for (const [b, wb] of terms.slice(k + 1)) addQuboTerm(Q, a, b, 2 * penalty * wa * wb);
+    });
+  });
+}
+
 /**
  * Generate a random symmetric distance matrix
  * 
  * @param numNodes Number of nodes
  * @param maxDistance Maximum distance between nodes
+ * @param random Random source
  * @returns A symmetric distance matrix
  */
-export function generateRandomDistanceMatrix(numNodes: number, maxDistance: number = 100): DistanceMatrix {
+export function generateRandomDistanceMatrix(
+  numNodes: number,
+  maxDistance: number = 100,
+  random: RandomSource = Math.random
+): DistanceMatrix {
   const matrix: DistanceMatrix = [];
   
   // Initialize matrix with zeros
@@ -212,7 +596,7 @@ export function generateRandomDistanceMatrix(numNodes: number, maxDistance: numb
   // Fill upper triangle with random distances
   for (let i = 0; i < numNodes; i++) {
     for (let j = i + 1; j < numNodes; j++) {
-      const distance = Math.floor(Math.random() * maxDistance) + 1;
+      const distance = Math.floor(random() * maxDistance) + 1;
       matrix[i][j] = distance;
       matrix[j][i] = distance; // Symmetry
     }
@@ -222,28 +606,102 @@ export function generateRandomDistanceMatrix(numNodes: number, maxDistance: numb
 }
 
 /**
- * Generate node coordinates from a distance matrix using MDS
- * This is a simplified version that works for visualization
+ * Generate a random demand for each customer
+ * 
+ * @param numNodes Number of nodes, depot included
+ * @param maxDemand Largest demand of a single customer
+ * @param random Random source
+ * @returns Demand per node, 0 for the depot
+ */
+export function generateRandomDemands(
+  numNodes: number,
+  maxDemand: number = 9,
+  random: RandomSource = Math.random
+): number[] {
+  return Array(numNodes).fill(0).map((_, i) => (i === 0 ? 0 : Math.floor(random() * maxDemand) + 1));
+}
+
+/**
+ * Generate a travel-time matrix from distances, slowing each road down by a
+ * random congestion factor
  * 
  * @param distanceMatrix The distance matrix
- * @returns Array of nodes with x,y coordinates
+ * @param congestion Largest slowdown, as a fraction of the free-flow time
+ * @param random Random source
+ * @returns A symmetric travel-time matrix
  */
-export function generateNodeCoordinates(distanceMatrix: DistanceMatrix): Node[] {
+export function generateTravelTimeMatrix(
+  distanceMatrix: DistanceMatrix,
+  congestion: number = 0.3,
+  random: RandomSource = Math.random
+): DistanceMatrix {
   const n = distanceMatrix.length;
-  const nodes: Node[] = [];
+  const matrix: DistanceMatrix = Array(n).fill(0).map(() => Array(n).fill(0));
   
-  // Simple approach: place nodes in a circle
   for (let i = 0; i < n; i++) {
-    const angle = (2 * Math.PI * i) / n;
-    const radius = 100;
-    
-    nodes.push({
-      id: i,
-      x: radius * Math.cos(angle),
-      y: radius * Math.sin(angle),
-      label: i === 0 ? 'Depot' : `Node ${i}`
-    });
+    for (let j = i + 1; j < n; j++) {
+      const time = Math.round(distanceMatrix[i][j] * (1 + random() * congestion));
+      matrix[i][j] = time;
+      matrix[j][i] = time;
+    }
+  }
+  
+  return matrix;
+}
+
+/**
+ * Generate a time window and service time for each customer
+ * Windows open at random over a horizon as long as the sum of the direct
+ * trips from the depot, never before the customer can be reached; the depot
+ * stays open until every customer can be served and driven back from.
+ * 
+ * @param travelTimeMatrix The travel-time matrix
+ * @param width Length of each window
+ * @param maxServiceTime Longest service time
+ * @param random Random source
+ * @returns Window and service time per node
+ */
+export function generateTimeWindows(
+  travelTimeMatrix: DistanceMatrix,
+  width: number = 60,
+  maxServiceTime: number = 10,
+  random: RandomSource = Math.random
+): Pick<Node, 'earliest' | 'latest' | 'serviceTime'>[] {
+  const n = travelTimeMatrix.length;
+  const horizon = travelTimeMatrix[0].reduce((sum, time) => sum + time, 0);
+  
+  const windows = travelTimeMatrix.map((_, i) => {
+    if (i === 0) return { earliest: 0, latest: 0, serviceTime: 0 };
+    const earliest = travelTimeMatrix[0][i] + Math.floor(random() * horizon);
+    return { earliest, latest: earliest + width, serviceTime: Math.floor(random() * maxServiceTime) + 1 };
+  });
+  
+  let closing = 0;
+  for (let i = 1; i < n; i++) {
+    closing = Math.max(closing, windows[i].latest + windows[i].serviceTime + travelTimeMatrix[i][0]);
   }
+  windows[0].latest = closing;
+  
+  return windows;
+}
+
+/**
+ * Generate node coordinates from a distance matrix using MDS
+ * 
+ * Classical multidimensional scaling gives the starting layout and stress
+ * majorization (SMACOF) refines it, so the distances drawn on the map match
+ * the matrix as closely as a plane allows; `layoutStress` measures how close.
+ * 
+ * @param distanceMatrix The distance matrix
+ * @returns Array of nodes with x,y coordinates
+ */
+export function generateNodeCoordinates(distanceMatrix: DistanceMatrix): Node[] {
+  const points = smacof(distanceMatrix, classicalMDS(distanceMatrix));
   
-  return nodes;
+  return points.map((point, i) => ({
+    id: i,
+    x: point.x,
+    y: point.y,
+    label: i === 0 ? 'Depot' : `Node ${i}`
+  }));
 }
@@ -0,0 +1,240 @@
+import { SparseQubo, SamplerType } from '../types';
+import { quboTerms } from './qubo';
+import { RandomSource, randomInt } from '../random';
+
+export const SAMPLER_NAMES: Record<SamplerType, string> = {
+  qaoa: 'QAOA',
+  annealing: 'Simulated annealing',
+  tempering: 'Parallel tempering',
+  greedy: 'Greedy descent'
+};
+
+/** Replicas in the parallel tempering ladder */
+const TEMPERING_REPLICAS = 8;
+
+/** Longest a sampling loop runs before yielding to the browser, in ms */
+const YIELD_INTERVAL = 100;
+
+export type SamplerRun = {
+  counts: Map<string, number>; // Reads per bitstring, qubit 0 rightmost
+  trace: number[]; // Mean energy after each sweep (annealing) or of the coldest replica (tempering)
+};
+
+/**
+ * Makes a check for long loops to call as they go: it yields to the browser
+ * once YIELD_INTERVAL has passed since it last did, so the page stays
+ * responsive while the loop runs
+ *
+ * @returns The check, resolving at once while time remains
+ */
+export function createYielder(): () => Promise<void> {
+  let lastYield = performance.now();
+  return async () => {
+    if (performance.now() - lastYield < YIELD_INTERVAL) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    lastYield = performance.now();
+  };
+}
+
+/**
+ * Binary state with the local field of every variable kept up to date
+ *
+ * Flipping x_i changes the energy by (1 - 2 x_i) (Q_ii + field_i), where
+ * field_i = sum over j != i of Q_ij x_j.
+ */
+class FlipState {
+  x: Uint8Array;
+  field: Float64Array;
+  energy = 0;
+
+  constructor(private model: QuboModel, x: Uint8Array) {
+    this.x = x;
+    this.field = new Float64Array(model.numVars);
+    for (let i = 0; i < model.numVars; i++) {
+      if (!x[i]) continue;
+      this.energy += model.diagonal[i];
+      for (const [j, weight] of model.neighbours[i]) {
+        this.field[j] += weight;
+        if (x[j] && j < i) this.energy += weight;
+      }
+    }
+  }
+
+  delta(i: number): number {
+    return (this.x[i] ? -1 : 1) * (this.model.diagonal[i] + this.field[i]);
+  }
+
+  flip(i: number): void {
+    const sign = this.x[i] ? -1 : 1;
+    this.energy += this.delta(i);
+    this.x[i] ^= 1;
+    for (const [j, weight] of this.model.neighbours[i]) this.field[j] += sign * weight;
+  }
+
+  bitstring(): string {
+    let bits = '';
+    for (let i = this.model.numVars - 1; i >= 0; i--) bits += this.x[i];
+    return bits;
+  }
+}
+
+type QuboModel = {
+  numVars: number;
+  diagonal: Float64Array;
+  neighbours: [number, number][][];
+  hot: number; // Inverse temperature where the largest flip is accepted half the time
+  cold: number; // Inverse temperature where the smallest flip is accepted 1% of the time
+};
+
+function quboModel(qubo: SparseQubo): QuboModel {
+  const { numVars } = qubo;
+  const diagonal = new Float64Array(numVars);
+  const neighbours: [number, number][][] = Array.from({ length: numVars }, () => []);
+  const reach = new Float64Array(numVars);
+  let smallest = Infinity;
+
+  for (const [i, j, weight] of quboTerms(qubo)) {
+    smallest = Math.min(smallest, Math.abs(weight));
+    if (i === j) {
+      diagonal[i] += weight;
+      reach[i] += Math.abs(weight);
+    } else {
+      neighbours[i].push([j, weight]);
+      neighbours[j].push([i, weight]);
+      reach[i] += Math.abs(weight);
+      reach[j] += Math.abs(weight);
+    }
+  }
+
+  const largest = Math.max(...reach, 0) || 1;
+  return {
+    numVars,
+    diagonal,
+    neighbours,
+    hot: Math.LN2 / largest,
+    cold: Math.log(100) / (isFinite(smallest) ? smallest : 1)
+  };
+}
+
+function randomState(model: QuboModel, random: RandomSource): FlipState {
+  const x = new Uint8Array(model.numVars);
+  for (let i = 0; i < model.numVars; i++) x[i] = random() < 0.5 ? 1 : 0;
+  return new FlipState(model, x);
+}
+
+/** One Metropolis sweep over every variable at inverse temperature beta */
+function metropolisSweep(state: FlipState, beta: number, random: RandomSource): void {
+  for (let i = 0; i < state.x.length; i++) {
+    const delta = state.delta(i);
+    if (delta <= 0 || random() < Math.exp(-beta * delta)) state.flip(i);
+  }
+}
+
+/**
+ * Samples a QUBO with a classical sampler
+ *
+ * Works on the same matrix the QAOA circuit is built from, so the decoded
+ * samples can be compared shot for shot with QAOA's:
+ * - annealing: each read starts from a random state and runs Metropolis
+ *   sweeps while the inverse temperature rises geometrically from where the
+ *   largest possible flip is accepted half the time to where the smallest is
+ *   accepted 1% of the time
+ * - tempering: eight replicas on a geometric ladder between the same two
+ *   temperatures, with neighbouring replicas offered a swap after every
+ *   sweep; after `sweeps` sweeps of burn-in the coldest replica is read once
+ *   per sweep
+ * - greedy: each read starts from a random state and flips the variable that
+ *   lowers the energy most until none does
+ *
+ * The sampler yields to the browser every 100 ms or so.
+ *
+ * @param qubo QUBO over the qubit variables only
+ * @param sampler Which sampler
+ * @param shots Number of reads
+ * @param sweeps Sweeps per read (annealing) or of burn-in (tempering)
+ * @param random Random source
+ * @returns Reads per bitstring, qubit 0 rightmost, and an energy trace
+ */
+export async function sampleQubo(
+  qubo: SparseQubo,
+  sampler: Exclude<SamplerType, 'qaoa'>,
+  shots: number,
+  sweeps: number,
+  random: RandomSource = Math.random
+): Promise<SamplerRun> {
+  const model = quboModel(qubo);
+  const pause = createYielder();
+  const counts = new Map<string, number>();
+  const record = (state: FlipState) => {
+    const bitstring = state.bitstring();
+    counts.set(bitstring, (counts.get(bitstring) || 0) + 1);
+  };
+  const beta = (step: number, steps: number) =>
+    model.hot * Math.pow(model.cold / model.hot, steps > 1 ? step / (steps - 1) : 1);
+
+  const trace: number[] = [];
+
+  switch (sampler) {
+    case 'annealing': {
+      const energySums = Array(sweeps).fill(0);
+      for (let read = 0; read < shots; read++) {
+        const state = randomState(model, random);
+        for (let sweep = 0; sweep < sweeps; sweep++) {
+          metropolisSweep(state, beta(sweep, sweeps), random);
+          energySums[sweep] += state.energy;
+          await pause();
+        }
+        record(state);
+      }
+      trace.push(...energySums.map(sum => sum / Math.max(shots, 1)));
+      break;
+    }
+
+    case 'tempering': {
+      const betas = Array.from({ length: TEMPERING_REPLICAS }, (_, k) => beta(k, TEMPERING_REPLICAS));
+      const replicas = betas.map(() => randomState(model, random));
+      const coldest = TEMPERING_REPLICAS - 1;
+
+      for (let sweep = 0; sweep < sweeps + shots; sweep++) {
+        replicas.forEach((replica, k) => metropolisSweep(replica, betas[k], random));
+        for (let k = 0; k < coldest; k++) {
+          const exponent = (betas[k + 1] - betas[k]) * (replicas[k + 1].energy - replicas[k].energy);
+          if (exponent >= 0 || random() < Math.exp(exponent)) {
+            [replicas[k], replicas[k + 1]] = [replicas[k + 1], replicas[k]];
+          }
+        }
+        trace.push(replicas[coldest].energy);
+        if (sweep >= sweeps) record(replicas[coldest]);
+        await pause();
+      }
+      break;
+    }
+
+    case 'greedy': {
+      for (let read = 0; read < shots; read++) {
+        const state = randomState(model, random);
+        for (;;) {
+          let best = -1;
+          let bestDelta = 0;
+          // Ties broken at random so reads from the same start can differ
+          const offset = randomInt(random, Math.max(model.numVars, 1));
+          for (let step = 0; step < model.numVars; step++) {
+            const i = (offset + step) % model.numVars;
+            const delta = state.delta(i);
+            if (delta < bestDelta) {
+              best = i;
+              bestDelta = delta;
+            }
+          }
+          if (best === -1) break;
+          state.flip(best);
+          await pause();
+        }
+        record(state);
+      }
+      break;
+    }
+  }
+
+  return { counts, trace };
+}
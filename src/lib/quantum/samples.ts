@@ -0,0 +1,151 @@
+import { VRPProblem, Route, QuantumMetrics, SampleRecord } from '../types';
+import { EncodedProblem } from './encodings';
+import { isFeasibleSolution, quboEnergy, quboToIsing, isingEnergy, restrictQubo, solutionToSpins } from './qubo';
+
+/** Number of most frequent bitstrings reported in the metrics */
+const TOP_K_SAMPLES = 10;
+
+/** Fraction of lowest-energy shots averaged by the CVaR metric */
+const CVAR_ALPHA = 0.2;
+
+export type DecodedSample = {
+  bitstring: string; // Qiskit ordering, qubit 0 rightmost
+  count: number;
+  energy: number; // QUBO energy
+  isingEnergy: number; // Same configuration evaluated on the Ising form
+  routes: Route[];
+  feasible: boolean;
+  distance: number;
+};
+
+/**
+ * Formats a basis state index as a bitstring, qubit 0 rightmost
+ *
+ * @param state Basis state index
+ * @param numQubits Register size
+ * @returns The bitstring
+ */
+export function toBitstring(state: number, numQubits: number): string {
+  return state.toString(2).padStart(numQubits, '0');
+}
+
+/**
+ * Expands a measured bitstring into a full QUBO solution vector
+ * Variables that are not carried by a qubit stay 0
+ *
+ * @param bitstring Measured bitstring, qubit 0 rightmost
+ * @param variables QUBO variable index for each qubit
+ * @param numVars Total number of QUBO variables
+ * @returns Binary solution vector
+ */
+export function bitstringToSolution(bitstring: string, variables: number[], numVars: number): number[] {
+  const solution = Array(numVars).fill(0);
+  const numQubits = bitstring.length;
+
+  variables.forEach((variable, qubit) => {
+    if (bitstring[numQubits - 1 - qubit] === '1') solution[variable] = 1;
+  });
+
+  return solution;
+}
+
+/**
+ * Decodes every distinct measured bitstring into routes
+ * Each bitstring is evaluated on both the QUBO and its Ising form, so the
+ * two energies and the route distance can be cross-checked
+ *
+ * @param counts Measurement counts per bitstring
+ * @param encoded The encoded problem the circuit was built from
+ * @param problem The VRP problem
+ * @returns One entry per distinct bitstring
+ */
+export function decodeSamples(
+  counts: Map<string, number>,
+  encoded: EncodedProblem,
+  problem: VRPProblem
+): DecodedSample[] {
+  const { qubo, variables } = encoded;
+  // Energies only involve the qubit variables, the rest are fixed to 0
+  const restricted = restrictQubo(qubo, variables);
+  const ising = quboToIsing(restricted);
+  const numQubits = variables.length;
+
+  return [...counts.entries()].map(([bitstring, count]) => {
+    const solution = bitstringToSolution(bitstring, variables, qubo.numVars);
+    const routes = encoded.decode(solution);
+    const bits = Array(numQubits).fill(0).map((_, qubit) => (bitstring[numQubits - 1 - qubit] === '1' ? 1 : 0));
+
+    return {
+      bitstring,
+      count,
+      energy: quboEnergy(restricted, bits),
+      isingEnergy: isingEnergy(ising, solutionToSpins(bits)),
+      routes,
+      feasible: isFeasibleSolution(routes, problem),
+      distance: routes.reduce((sum, route) => sum + route.distance, 0)
+    };
+  });
+}
+
+/**
+ * Ranks decoded samples: feasible before infeasible, feasible ones by
+ * distance and then energy, infeasible ones by energy
+ *
+ * @param samples Decoded samples
+ * @returns The samples, best first
+ */
+export function rankSamples(samples: DecodedSample[]): DecodedSample[] {
+  return [...samples].sort((a, b) => {
+    if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
+    if (a.feasible && a.distance !== b.distance) return a.distance - b.distance;
+    return a.energy - b.energy;
+  });
+}
+
+/**
+ * Summarizes the measured distribution: top-k bitstrings and
+ * the best, mean and CVaR energies over all shots
+ *
+ * @param samples Decoded samples
+ * @returns The sample part of the quantum metrics
+ */
+export function sampleStatistics(
+  samples: DecodedSample[]
+): Pick<QuantumMetrics, 'topSamples' | 'bestEnergy' | 'meanEnergy' | 'cvarEnergy' | 'cvarAlpha' | 'feasibleFraction'> {
+  const shots = samples.reduce((sum, s) => sum + s.count, 0);
+
+  const byCount = [...samples].sort((a, b) => b.count - a.count || a.energy - b.energy);
+  const topSamples: SampleRecord[] = byCount.slice(0, TOP_K_SAMPLES).map(sample => ({
+    bitstring: sample.bitstring,
+    count: sample.count,
+    energy: sample.energy,
+    isingEnergy: sample.isingEnergy,
+    feasible: sample.feasible,
+    distance: sample.distance
+  }));
+
+  const byEnergy = [...samples].sort((a, b) => a.energy - b.energy);
+  const meanEnergy = samples.reduce((sum, s) => sum + s.energy * s.count, 0) / shots;
+
+  // CVaR: mean energy of the lowest alpha fraction of shots
+  const tailShots = Math.max(1, Math.ceil(CVAR_ALPHA * shots));
+  let remaining = tailShots;
+  let tailEnergy = 0;
+  for (const sample of byEnergy) {
+    const taken = Math.min(sample.count, remaining);
+    tailEnergy += taken * sample.energy;
+    remaining -= taken;
+    if (remaining === 0) break;
+  }
+
+  const feasibleShots = samples.reduce((sum, s) => sum + (s.feasible ? s.count : 0), 0);
+
+  return {
+    topSamples,
+    bestEnergy: byEnergy.length > 0 ? byEnergy[0].energy : 0,
+    meanEnergy,
+    cvarEnergy: tailEnergy / (tailShots - remaining),
+    cvarAlpha: CVAR_ALPHA,
+    feasibleFraction: feasibleShots / shots
+  };
+}
@@ -0,0 +1,308 @@
+import { SparseQubo } from '../types';
+import { restrictQubo, quboTerms } from './qubo';
+
+/**
+ * Largest register the in-browser simulator accepts.
+ * 2^20 amplitudes take 16 MB (real + imaginary Float64Arrays), which keeps
+ * a full QAOA run responsive on an ordinary laptop.
+ */
+export const MAX_STATEVECTOR_QUBITS = 20;
+
+export type Statevector = {
+  numQubits: number;
+  re: Float64Array;
+  im: Float64Array;
+};
+
+/**
+ * Computes the QUBO energy of every computational basis state
+ *
+ * Qubit k of the register carries QUBO variable `variables[k]`; all other
+ * variables are held at 0. The table is the diagonal of the cost Hamiltonian,
+ * built incrementally so the cost is O(2^n * n) instead of O(2^n * n^2):
+ * E(s + 2^k) = E(s) + Q_kk + sum_{j<k, s_j=1} Q_jk
+ *
+ * @param qubo The QUBO
+ * @param variables QUBO variable index for each qubit
+ * @returns Energy of each basis state, indexed by bitstring value
+ */
+export function diagonalEnergies(qubo: SparseQubo, variables: number[]): Float64Array {
+  const numQubits = variables.length;
+  const energies = new Float64Array(1 << numQubits);
+
+  // Linear term of each qubit and its couplings to lower qubits
+  const linear = new Float64Array(numQubits);
+  const couplings: [number, number][][] = Array(numQubits).fill(0).map(() => []);
+  for (const [i, j, weight] of quboTerms(restrictQubo(qubo, variables))) {
+    if (i === j) linear[i] += weight;
+    else couplings[j].push([i, weight]);
+  }
+
+  for (let k = 0; k < numQubits; k++) {
+    const half = 1 << k;
+    for (let s = 0; s < half; s++) {
+      let energy = energies[s] + linear[k];
+      for (const [j, weight] of couplings[k]) {
+        if (s & (1 << j)) energy += weight;
+      }
+      energies[s + half] = energy;
+    }
+  }
+
+  return energies;
+}
+
+/**
+ * Prepares |+>^n, the output of the initial Hadamard layer
+ *
+ * @param numQubits Register size
+ * @returns The uniform superposition
+ */
+export function uniformSuperposition(numQubits: number): Statevector {
+  if (numQubits > MAX_STATEVECTOR_QUBITS) {
+    throw new Error(
+      `Statevector simulation needs ${numQubits} qubits, the limit is ${MAX_STATEVECTOR_QUBITS}`
+    );
+  }
+
+  const size = 1 << numQubits;
+  const re = new Float64Array(size).fill(1 / Math.sqrt(size));
+  const im = new Float64Array(size);
+
+  return { numQubits, re, im };
+}
+
+/**
+ * Applies the cost unitary exp(-i * gamma * H_C) in place
+ * H_C is diagonal, so each amplitude only picks up a phase
+ *
+ * @param state The statevector
+ * @param energies Diagonal of H_C
+ * @param gamma Cost angle
+ */
+export function applyCostLayer(state: Statevector, energies: Float64Array, gamma: number): void {
+  applyDiagonalPhase(state, s => -gamma * energies[s]);
+}
+
+/**
+ * Applies the mixer unitary exp(-i * beta * sum_k X_k) in place,
+ * i.e. RX(2 * beta) on every qubit
+ *
+ * @param state The statevector
+ * @param beta Mixer angle
+ */
+export function applyMixerLayer(state: Statevector, beta: number): void {
+  for (let k = 0; k < state.numQubits; k++) {
+    applyRX(state, k, 2 * beta);
+  }
+}
+
+/**
+ * Applies RX(theta) = exp(-i * theta / 2 * X) to one qubit in place
+ *
+ * @param state The statevector
+ * @param qubit Target qubit
+ * @param theta Rotation angle
+ */
+export function applyRX(state: Statevector, qubit: number, theta: number): void {
+  const { re, im } = state;
+  const c = Math.cos(theta / 2);
+  const sn = Math.sin(theta / 2);
+  const bit = 1 << qubit;
+
+  for (let s = 0; s < re.length; s++) {
+    if (s & bit) continue;
+    const t = s | bit;
+    const r0 = re[s], i0 = im[s];
+    const r1 = re[t], i1 = im[t];
+    // [cos, -i sin; -i sin, cos]
+    re[s] = c * r0 + sn * i1;
+    im[s] = c * i0 - sn * r1;
+    re[t] = c * r1 + sn * i0;
+    im[t] = c * i1 - sn * r0;
+  }
+}
+
+/**
+ * Applies RZ(theta) = exp(-i * theta / 2 * Z) to one qubit in place
+ *
+ * @param state The statevector
+ * @param qubit Target qubit
+ * @param theta Rotation angle
+ */
+export function applyRZ(state: Statevector, qubit: number, theta: number): void {
+  const bit = 1 << qubit;
+  applyDiagonalPhase(state, s => (s & bit ? theta / 2 : -theta / 2));
+}
+
+/**
+ * Applies RZZ(theta) = exp(-i * theta / 2 * Z_a Z_b) in place
+ *
+ * @param state The statevector
+ * @param a First qubit
+ * @param b Second qubit
+ * @param theta Rotation angle
+ */
+export function applyRZZ(state: Statevector, a: number, b: number, theta: number): void {
+  const bitA = 1 << a;
+  const bitB = 1 << b;
+  // Z_a Z_b is +1 when both bits agree
+  applyDiagonalPhase(state, s => (!(s & bitA) === !(s & bitB) ? -theta / 2 : theta / 2));
+}
+
+/**
+ * Applies a Pauli operator to one qubit in place, up to global phase
+ *
+ * @param state The statevector
+ * @param qubit Target qubit
+ * @param pauli Which Pauli to apply
+ */
+export function applyPauli(state: Statevector, qubit: number, pauli: 'X' | 'Y' | 'Z'): void {
+  const { re, im } = state;
+  const bit = 1 << qubit;
+
+  // Y = iXZ, so Z followed by X matches Y up to a global phase
+  if (pauli === 'Z' || pauli === 'Y') {
+    for (let s = 0; s < re.length; s++) {
+      if (s & bit) {
+        re[s] = -re[s];
+        im[s] = -im[s];
+      }
+    }
+  }
+
+  if (pauli === 'X' || pauli === 'Y') {
+    for (let s = 0; s < re.length; s++) {
+      if (s & bit) continue;
+      const t = s | bit;
+      [re[s], re[t]] = [re[t], re[s]];
+      [im[s], im[t]] = [im[t], im[s]];
+    }
+  }
+}
+
+/**
+ * Applies a Pauli string in one pass, up to global phase: Z on every qubit
+ * in zMask, then X on every qubit in xMask (Y is both)
+ *
+ * @param state The statevector
+ * @param xMask Qubits that get an X
+ * @param zMask Qubits that get a Z
+ */
+export function applyPauliString(state: Statevector, xMask: number, zMask: number): void {
+  const { re, im } = state;
+  const sign = (s: number) => {
+    let v = s & zMask;
+    v ^= v >>> 16;
+    v ^= v >>> 8;
+    v ^= v >>> 4;
+    v ^= v >>> 2;
+    v ^= v >>> 1;
+    return v & 1 ? -1 : 1;
+  };
+
+  for (let s = 0; s < re.length; s++) {
+    const t = s ^ xMask;
+    if (t < s) continue;
+    const signS = sign(s);
+    if (t === s) {
+      re[s] *= signS;
+      im[s] *= signS;
+      continue;
+    }
+    const signT = sign(t);
+    const r = re[s];
+    const i = im[s];
+    re[s] = signT * re[t];
+    im[s] = signT * im[t];
+    re[t] = signS * r;
+    im[t] = signS * i;
+  }
+}
+
+/**
+ * Multiplies each amplitude by exp(i * phase(s)) in place
+ */
+function applyDiagonalPhase(state: Statevector, phase: (s: number) => number): void {
+  const { re, im } = state;
+
+  for (let s = 0; s < re.length; s++) {
+    const angle = phase(s);
+    const c = Math.cos(angle);
+    const sn = Math.sin(angle);
+    const r = re[s];
+    const i = im[s];
+    re[s] = r * c - i * sn;
+    im[s] = r * sn + i * c;
+  }
+}
+
+/**
+ * Measurement probabilities in the computational basis
+ *
+ * @param state The statevector
+ * @returns |amplitude|^2 for each basis state
+ */
+export function probabilities(state: Statevector): Float64Array {
+  const { re, im } = state;
+  const probs = new Float64Array(re.length);
+
+  for (let s = 0; s < re.length; s++) {
+    probs[s] = re[s] * re[s] + im[s] * im[s];
+  }
+
+  return probs;
+}
+
+/**
+ * Expectation value <H_C> for a probability distribution over basis states
+ *
+ * @param probs Basis state probabilities
+ * @param energies Diagonal of H_C
+ * @returns The expected energy
+ */
+export function expectationValue(probs: Float64Array, energies: Float64Array): number {
+  let total = 0;
+  for (let s = 0; s < probs.length; s++) {
+    total += probs[s] * energies[s];
+  }
+  return total;
+}
+
+/**
+ * Draws measurement shots from a probability distribution
+ *
+ * @param probs Basis state probabilities
+ * @param shots Number of shots
+ * @param random Uniform random source in [0, 1)
+ * @returns Count per measured basis state
+ */
+export function sampleCounts(
+  probs: Float64Array,
+  shots: number,
+  random: () => number = Math.random
+): Map<number, number> {
+  // Cumulative distribution for binary search
+  const cdf = new Float64Array(probs.length);
+  let acc = 0;
+  for (let s = 0; s < probs.length; s++) {
+    acc += probs[s];
+    cdf[s] = acc;
+  }
+
+  const counts = new Map<number, number>();
+
+  for (let shot = 0; shot < shots; shot++) {
+    const r = random() * acc;
+    let lo = 0;
+    let hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] > r) hi = mid;
+      else lo = mid + 1;
+    }
+    counts.set(lo, (counts.get(lo) || 0) + 1);
+  }
+
+  return counts;
+}
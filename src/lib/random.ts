@@ -0,0 +1,41 @@
+/** A source of uniform random numbers in [0, 1) */
+export type RandomSource = () => number;
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ *
+ * The same seed always gives the same sequence, so runs can be repeated.
+ *
+ * @param seed Any integer; only the low 32 bits are used
+ * @returns Uniform random numbers in [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh seed for when none is given
+ *
+ * @returns A random 32-bit unsigned integer
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Random integer in [0, n)
+ *
+ * @param random Random source
+ * @param n Number of possible values
+ * @returns The integer
+ */
+export function randomInt(random: RandomSource, n: number): number {
+  return Math.floor(random() * n);
+}
@@ -0,0 +1,213 @@
+import { DistanceMatrix, Node, Vehicle, VRPProblem } from './types';
+import { VEHICLE_COLORS } from './instances';
+
+/**
+ * Parse a Solomon or Gehring–Homberger VRPTW instance
+ *
+ * The file gives the instance name, the fleet size and capacity under
+ * VEHICLE, then one line per node under CUSTOMER: number, x, y, demand,
+ * ready time, due date and service time, with the depot as customer 0.
+ * Distances, which are also the travel times, are Euclidean truncated to
+ * one decimal, the convention the published optima use. The 25- and
+ * 50-customer instances are the first customers of the 100-customer ones,
+ * so `maxCustomers` cuts them from the full file.
+ *
+ * @param text Contents of the file
+ * @param maxCustomers Keep only this many customers, in file order
+ * @returns The problem with its time windows, node 0 the depot
+ */
+export function parseSolomon(text: string, maxCustomers: number = Infinity): VRPProblem {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const numeric = (line: string) => line.split(/\s+/).map(Number);
+  const isNumeric = (line: string) => numeric(line).every(value => isFinite(value));
+
+  const fleetHeader = lines.findIndex(line => /^NUMBER\s+CAPACITY/i.test(line));
+  const fleet = fleetHeader === -1 ? undefined : lines[fleetHeader + 1];
+  if (!fleet || !isNumeric(fleet)) throw new Error('No VEHICLE section with NUMBER and CAPACITY found.');
+  const [numVehicles, capacity] = numeric(fleet);
+  if (!Number.isInteger(numVehicles) || numVehicles < 1 || !(capacity > 0)) {
+    throw new Error('The vehicle number and capacity must be positive.');
+  }
+
+  const customerHeader = lines.findIndex(line => /^CUST\.?\s*NO/i.test(line));
+  if (customerHeader === -1) throw new Error('No CUSTOMER section found.');
+  const allRows = lines.slice(customerHeader + 1).map((line, k) => {
+    const row = numeric(line);
+    if (row.length !== 7 || row.some(value => !isFinite(value))) {
+      throw new Error(`Customer line ${k + 1} needs 7 numbers: "${line}".`);
+    }
+    if (row[0] !== k) throw new Error(`Customer line ${k + 1} is numbered ${row[0]}; expected ${k}.`);
+    return row;
+  });
+  const rows = allRows.slice(0, maxCustomers + 1);
+  if (rows.length < 2) throw new Error('The instance needs a depot and at least one customer.');
+
+  const nodes: Node[] = rows.map(([id, x, y, demand, ready, due, service]) => ({
+    id,
+    x,
+    y,
+    label: id === 0 ? 'Depot' : `Node ${id}`,
+    demand: id === 0 ? 0 : demand,
+    earliest: ready,
+    latest: due,
+    serviceTime: id === 0 ? 0 : service
+  }));
+
+  const distanceMatrix: DistanceMatrix = nodes.map(a => nodes.map(b => Math.floor(10 * Math.hypot(a.x - b.x, a.y - b.y)) / 10));
+
+  const vehicles: Vehicle[] = Array.from({ length: numVehicles }, (_, i) => ({
+    id: i,
+    capacity,
+    color: VEHICLE_COLORS[i % VEHICLE_COLORS.length]
+  }));
+
+  const name = lines[0].split(/\s+/)[0];
+  const customers = rows.length - 1;
+  return {
+    name: rows.length < allRows.length ? `${name}.${customers}` : name,
+    nodes,
+    vehicles,
+    distanceMatrix
+  };
+}
+
+type SolomonInstance = {
+  text: string; // The 25-customer instance in Solomon's format
+  bestKnown: { distance: number; vehicles: number }; // Published optimum
+};
+
+/**
+ * The first instance of each of Solomon's R1, C1 and RC1 classes, cut to
+ * 25 customers, with their published optima
+ */
+export const SOLOMON_INSTANCES: Record<string, SolomonInstance> = {
+  'C101.25': {
+    bestKnown: { distance: 191.3, vehicles: 3 },
+    text: `C101.25
+
+VEHICLE
+NUMBER     CAPACITY
+  25         200
+
+CUSTOMER
+CUST NO.  XCOORD.   YCOORD.    DEMAND   READY TIME  DUE DATE   SERVICE TIME
+
+    0      40         50          0          0       1236          0
+    1      45         68         10        912        967         90
+    2      45         70         30        825        870         90
+    3      42         66         10         65        146         90
+    4      42         68         10        727        782         90
+    5      42         65         10         15         67         90
+    6      40         69         20        621        702         90
+    7      40         66         20        170        225         90
+    8      38         68         20        255        324         90
+    9      38         70         10        534        605         90
+   10      35         66         10        357        410         90
+   11      35         69         10        448        505         90
+   12      25         85         20        652        721         90
+   13      22         75         30         30         92         90
+   14      22         85         10        567        620         90
+   15      20         80         40        384        429         90
+   16      20         85         40        475        528         90
+   17      18         75         20         99        148         90
+   18      15         75         20        179        254         90
+   19      15         80         10        278        345         90
+   20      30         50         10         10         73         90
+   21      30         52         20        914        965         90
+   22      28         52         20        812        883         90
+   23      28         55         10        732        777         90
+   24      25         50         10         65        144         90
+   25      25         52         40        169        224         90
+`
+  },
+  'R101.25': {
+    bestKnown: { distance: 617.1, vehicles: 8 },
+    text: `R101.25
+
+VEHICLE
+NUMBER     CAPACITY
+  25         200
+
+CUSTOMER
+CUST NO.  XCOORD.   YCOORD.    DEMAND   READY TIME  DUE DATE   SERVICE TIME
+
+    0      35         35          0          0        230          0
+    1      41         49         10        161        171         10
+    2      35         17          7         50         60         10
+    3      55         45         13        116        126         10
+    4      55         20         19        149        159         10
+    5      15         30         26         34         44         10
+    6      25         30          3         99        109         10
+    7      20         50          5         81         91         10
+    8      10         43          9         95        105         10
+    9      55         60         16         97        107         10
+   10      30         60         16        124        134         10
+   11      20         65         12         67         77         10
+   12      50         35         19         63         73         10
+   13      30         25         23        159        169         10
+   14      15         10         20         32         42         10
+   15      30          5          8         61         71         10
+   16      10         20         19         75         85         10
+   17       5         30          2        157        167         10
+   18      20         40         12         87         97         10
+   19      15         60         17         76         86         10
+   20      45         65          9        126        136         10
+   21      45         20         11         62         72         10
+   22      45         10         18         97        107         10
+   23      55          5         29         68         78         10
+   24      65         35          3        153        163         10
+   25      65         20          6        172        182         10
+`
+  },
+  'RC101.25': {
+    bestKnown: { distance: 461.1, vehicles: 4 },
+    text: `RC101.25
+
+VEHICLE
+NUMBER     CAPACITY
+  25         200
+
+CUSTOMER
+CUST NO.  XCOORD.   YCOORD.    DEMAND   READY TIME  DUE DATE   SERVICE TIME
+
+    0      40         50          0          0        240          0
+    1      25         85         20        145        175         10
+    2      22         75         30         50         80         10
+    3      22         85         10        109        139         10
+    4      20         80         40        141        171         10
+    5      20         85         20         41         71         10
+    6      18         75         20         95        125         10
+    7      15         75         20         79        109         10
+    8      15         80         10         91        121         10
+    9      10         35         20         91        121         10
+   10      10         40         30        119        149         10
+   11       8         40         40         59         89         10
+   12       8         45         20         64         94         10
+   13       5         35         10        142        172         10
+   14       5         45         10         35         65         10
+   15       2         40         20         58         88         10
+   16       0         40         20         72        102         10
+   17       0         45         20        149        179         10
+   18      44          5         20         87        117         10
+   19      42         10         40         72        102         10
+   20      42         15         10        122        152         10
+   21      40          5         10         67         97         10
+   22      40         15         40         92        122         10
+   23      38          5         30         65         95         10
+   24      38         15         10        148        178         10
+   25      35          5         20        154        184         10
+`
+  }
+};
+
+/**
+ * Load a bundled Solomon instance with its published optimum
+ *
+ * @param name Key of SOLOMON_INSTANCES
+ * @returns The problem
+ */
+export function loadSolomonInstance(name: string): VRPProblem {
+  const instance = SOLOMON_INSTANCES[name];
+  if (!instance) throw new Error(`No bundled Solomon instance ${name}.`);
+  return { ...parseSolomon(instance.text), bestKnown: instance.bestKnown };
+}
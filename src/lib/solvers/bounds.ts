@@ -0,0 +1,377 @@
+import { VRPProblem, LowerBound, LowerBoundMethod } from '../types';
+import { routeLoad, vehicleCapacity } from '../quantum/qubo';
+import { savingsRoutes } from './savings';
+import { solveLinearProgram, LinearConstraint } from './simplex';
+
+export const LOWER_BOUND_NAMES: Record<LowerBoundMethod, string> = {
+  'one-tree': '1-tree (Held–Karp)',
+  assignment: 'Assignment',
+  lp: 'LP relaxation'
+};
+
+/** Largest problem, depot included, the LP relaxation is computed for */
+export const MAX_LP_NODES = 30;
+
+/** Subgradient steps for the 1-tree bound */
+const SUBGRADIENT_STEPS = 300;
+
+/** Rounds of capacity cuts added to the LP relaxation, and the time they may take in ms */
+const MAX_CUT_ROUNDS = 30;
+const CUT_TIME_LIMIT = 2000;
+
+/** Stands in for a forbidden assignment */
+const FORBIDDEN = 1e9;
+
+const EPSILON = 1e-6;
+
+/**
+ * Lower bounds on the total distance of any solution
+ *
+ * All three relax the problem, so none can exceed the optimum, and all
+ * ignore time windows. They use the fewest routes capacity allows,
+ * ceil(total demand / largest capacity), up to one per vehicle; with several
+ * possible route counts the bound is the smallest over them.
+ * - 1-tree (Held–Karp): with k routes the customers form k paths and the
+ *   depot has 2k edge ends; relaxed to the cheapest forest of k trees plus
+ *   the 2k cheapest depot edges on the smaller of the two directions of each
+ *   edge, tightened by subgradient optimization of a penalty per customer
+ *   that pushes every degree towards 2
+ * - assignment: every node gets one successor and one predecessor, with k
+ *   copies of the depot; solved by the Hungarian method
+ * - LP relaxation: the directed two-index flow formulation with fractional
+ *   edges, strengthened with rounded capacity cuts: the flow out of a set of
+ *   customers must be at least the number of vehicles their demand needs.
+ *   Every round of cuts gives a valid bound, so adding them stops after
+ *   two seconds. Only computed up to MAX_LP_NODES nodes.
+ *
+ * @param problem The VRP problem
+ * @returns The bounds, 1-tree, assignment and LP
+ */
+export async function computeLowerBounds(problem: VRPProblem): Promise<LowerBound[]> {
+  const { nodes, vehicles } = problem;
+  const m = nodes.length - 1;
+  const maxCapacity = Math.max(...vehicles.map(vehicle => vehicleCapacity(vehicle.id, problem)));
+  const totalDemand = routeLoad(nodes.map((_, node) => node), problem);
+
+  const fewest = m === 0 ? 0 : Math.max(1, Math.ceil(totalDemand / maxCapacity - EPSILON));
+  const most = Math.min(vehicles.length, m);
+  if (fewest > most) {
+    throw new Error(`The customers need at least ${fewest} vehicles, but there are only ${vehicles.length}.`);
+  }
+
+  // Yields to the browser before each bound so the page stays responsive
+  const timed = async (method: LowerBoundMethod, compute: () => { value: number; note?: string }): Promise<LowerBound> => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const startTime = performance.now();
+    const { value, note } = compute();
+    return { method, value, executionTime: performance.now() - startTime, note };
+  };
+
+  const bounds = [
+    await timed('one-tree', () => oneTreeBound(problem, fewest, most)),
+    await timed('assignment', () => assignmentBound(problem, fewest, most))
+  ];
+  if (nodes.length <= MAX_LP_NODES) {
+    bounds.push(await timed('lp', () => lpBound(problem, fewest, most, maxCapacity)));
+  }
+  return bounds;
+}
+
+/**
+ * The 1-tree bound with subgradient optimization
+ *
+ * @param problem The VRP problem
+ * @param fewest Fewest routes
+ * @param most Most routes
+ * @returns The bound
+ */
+function oneTreeBound(problem: VRPProblem, fewest: number, most: number): { value: number; note: string } {
+  const { distanceMatrix: d } = problem;
+  const n = d.length;
+  const m = n - 1;
+  if (m === 0) return { value: 0, note: 'no customers' };
+
+  // Any tour is at least as long on the cheaper direction of each edge
+  const cost = (i: number, j: number) => Math.min(d[i][j], d[j][i]);
+
+  // Step sizes aim at a known solution's length
+  let upper: number;
+  try {
+    upper = savingsRoutes(problem, 'parallel').reduce((sum, route) => sum + route.distance, 0);
+  } catch {
+    upper = Array.from({ length: m }, (_, c) => 2 * cost(0, c + 1)).reduce((sum, x) => sum + x, 0);
+  }
+
+  const penalty = Array(n).fill(0);
+  let best = -Infinity;
+  let bestRoutes = fewest;
+  let scale = 2;
+  let stale = 0;
+  let steps = 0;
+
+  for (; steps < SUBGRADIENT_STEPS; steps++) {
+    // Customer edges in Kruskal order, and the forest after each accepted edge
+    const edges: { i: number; j: number; cost: number }[] = [];
+    for (let i = 1; i < n; i++) {
+      for (let j = i + 1; j < n; j++) edges.push({ i, j, cost: cost(i, j) + penalty[i] + penalty[j] });
+    }
+    edges.sort((a, b) => a.cost - b.cost);
+    const root = Array.from({ length: n }, (_, node) => node);
+    const find = (node: number): number => (root[node] === node ? node : (root[node] = find(root[node])));
+    const forest: typeof edges = [];
+    for (const edge of edges) {
+      if (forest.length === m - fewest) break;
+      const a = find(edge.i);
+      const b = find(edge.j);
+      if (a === b) continue;
+      root[a] = b;
+      forest.push(edge);
+    }
+
+    // Depot edge ends, cheapest first; a customer alone on its route takes both ends of its edge
+    const depotEnds = (k: number) => {
+      const copies = k === 1 && m > 1 ? 1 : 2;
+      const ends: { node: number; cost: number }[] = [];
+      for (let c = 1; c < n; c++) {
+        for (let copy = 0; copy < copies; copy++) ends.push({ node: c, cost: cost(0, c) + penalty[c] });
+      }
+      return ends.sort((a, b) => a.cost - b.cost).slice(0, 2 * k);
+    };
+
+    // The Lagrangian relaxation: the cheapest structure over the allowed route counts
+    let lagrangian = Infinity;
+    let degree: number[] = [];
+    let routes = fewest;
+    for (let k = fewest; k <= most; k++) {
+      const trees = forest.slice(0, m - k);
+      const ends = depotEnds(k);
+      const value = trees.reduce((sum, edge) => sum + edge.cost, 0) + ends.reduce((sum, end) => sum + end.cost, 0);
+      if (value < lagrangian) {
+        lagrangian = value;
+        routes = k;
+        degree = Array(n).fill(0);
+        for (const edge of trees) {
+          degree[edge.i]++;
+          degree[edge.j]++;
+        }
+        for (const end of ends) degree[end.node]++;
+      }
+    }
+    const value = lagrangian - 2 * penalty.reduce((sum, p) => sum + p, 0);
+
+    if (value > best + EPSILON) {
+      best = value;
+      bestRoutes = routes;
+      stale = 0;
+    } else if (++stale >= 20) {
+      scale /= 2;
+      stale = 0;
+      if (scale < 1e-4) break;
+    }
+
+    // Every customer has degree 2: the relaxation is a solution and the bound is tight
+    let norm = 0;
+    for (let c = 1; c < n; c++) norm += (degree[c] - 2) ** 2;
+    if (norm === 0) break;
+
+    const step = scale * Math.max(upper - value, EPSILON) / norm;
+    for (let c = 1; c < n; c++) penalty[c] += step * (degree[c] - 2);
+  }
+
+  return { value: best, note: `${steps} subgradient steps, ${bestRoutes} route${bestRoutes === 1 ? '' : 's'}` };
+}
+
+/**
+ * The assignment bound, with one depot copy per route
+ *
+ * @param problem The VRP problem
+ * @param fewest Fewest routes
+ * @param most Most routes
+ * @returns The bound
+ */
+function assignmentBound(problem: VRPProblem, fewest: number, most: number): { value: number; note: string } {
+  const { distanceMatrix: d } = problem;
+  const m = d.length - 1;
+  if (m === 0) return { value: 0, note: 'no customers' };
+
+  let best = Infinity;
+  let bestRoutes = fewest;
+  for (let k = fewest; k <= most; k++) {
+    // Rows and columns 0..k-1 are depot copies, then the customers
+    const node = (index: number) => (index < k ? 0 : index - k + 1);
+    const size = m + k;
+    const matrix = Array.from({ length: size }, (_, a) => Array.from({ length: size }, (_, b) => {
+      if (a === b || (a < k && b < k)) return FORBIDDEN;
+      return d[node(a)][node(b)];
+    }));
+    const value = hungarian(matrix);
+    if (value < best) {
+      best = value;
+      bestRoutes = k;
+    }
+  }
+  return { value: best, note: `${bestRoutes} route${bestRoutes === 1 ? '' : 's'}` };
+}
+
+/**
+ * Minimum-cost perfect assignment (Hungarian method with potentials)
+ *
+ * @param cost Square cost matrix
+ * @returns The least total cost
+ */
+function hungarian(cost: number[][]): number {
+  const n = cost.length;
+  const u = Array(n + 1).fill(0);
+  const v = Array(n + 1).fill(0);
+  const match = Array(n + 1).fill(0); // Row matched to each column, 1-based
+  const way = Array(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    match[0] = row;
+    let column = 0;
+    const least = Array(n + 1).fill(Infinity);
+    const used = Array(n + 1).fill(false);
+    do {
+      used[column] = true;
+      const current = match[column];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = cost[current - 1][j - 1] - u[current] - v[j];
+        if (reduced < least[j]) {
+          least[j] = reduced;
+          way[j] = column;
+        }
+        if (least[j] < delta) {
+          delta = least[j];
+          next = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          least[j] -= delta;
+        }
+      }
+      column = next;
+    } while (match[column] !== 0);
+    do {
+      const previous = way[column];
+      match[column] = match[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  let total = 0;
+  for (let j = 1; j <= n; j++) total += cost[match[j] - 1][j - 1];
+  return total;
+}
+
+/**
+ * The LP relaxation of the two-index flow formulation with capacity cuts
+ *
+ * @param problem The VRP problem
+ * @param fewest Fewest routes
+ * @param most Most routes
+ * @param maxCapacity Largest vehicle capacity
+ * @returns The bound
+ */
+function lpBound(problem: VRPProblem, fewest: number, most: number, maxCapacity: number): { value: number; note: string } {
+  const { distanceMatrix: d } = problem;
+  const n = d.length;
+  if (n === 1) return { value: 0, note: 'no customers' };
+
+  // One variable per directed edge
+  const edges: [number, number][] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) if (i !== j) edges.push([i, j]);
+  }
+  const objective = edges.map(([i, j]) => d[i][j]);
+  const row = (select: (i: number, j: number) => boolean) => edges.map(([i, j]) => (select(i, j) ? 1 : 0));
+
+  const constraints: LinearConstraint[] = [];
+  for (let c = 1; c < n; c++) {
+    constraints.push({ coefficients: row(i => i === c), sense: '=', rhs: 1 });
+    constraints.push({ coefficients: row((_, j) => j === c), sense: '=', rhs: 1 });
+  }
+  constraints.push({ coefficients: edges.map(([i, j]) => (i === 0 ? 1 : j === 0 ? -1 : 0)), sense: '=', rhs: 0 });
+  constraints.push({ coefficients: row(i => i === 0), sense: '>=', rhs: fewest });
+  constraints.push({ coefficients: row(i => i === 0), sense: '<=', rhs: most });
+
+  const startTime = performance.now();
+  const seen = new Set<string>();
+  let cuts = 0;
+  let value = 0;
+  let stopped = false;
+
+  for (let round = 0; round <= MAX_CUT_ROUNDS; round++) {
+    const result = solveLinearProgram(objective, constraints);
+    if (result.status !== 'optimal') {
+      throw new Error(`The LP relaxation is ${result.status}.`);
+    }
+    value = result.value;
+    if (round === MAX_CUT_ROUNDS || performance.now() - startTime > CUT_TIME_LIMIT) {
+      stopped = true;
+      break;
+    }
+
+    // Candidate customer sets: connected parts of the fractional solution at a few thresholds
+    const x = Array.from({ length: n }, () => Array(n).fill(0));
+    edges.forEach(([i, j], index) => { x[i][j] = result.x[index]; });
+    const added: LinearConstraint[] = [];
+    for (const threshold of [EPSILON, 0.5]) {
+      for (const set of components(x, threshold)) {
+        const key = [...set].sort((a, b) => a - b).join(',');
+        if (seen.has(key)) continue;
+        const needed = Math.ceil(routeLoad([...set], problem) / maxCapacity - EPSILON) || 1;
+        let outflow = 0;
+        for (const i of set) {
+          for (let j = 0; j < n; j++) if (!set.has(j)) outflow += x[i][j];
+        }
+        if (outflow < needed - EPSILON) {
+          seen.add(key);
+          added.push({ coefficients: row((i, j) => set.has(i) && !set.has(j)), sense: '>=', rhs: needed });
+        }
+      }
+    }
+    if (added.length === 0) break;
+    constraints.push(...added);
+    cuts += added.length;
+  }
+
+  return { value, note: `${cuts} capacity cut${cuts === 1 ? '' : 's'}${stopped ? ', stopped early' : ''}` };
+}
+
+/**
+ * Sets of customers joined by edges carrying at least the threshold in either direction
+ *
+ * @param x Flow on each directed edge
+ * @param threshold Smallest flow that joins two customers
+ * @returns The connected customer sets
+ */
+function components(x: number[][], threshold: number): Set<number>[] {
+  const n = x.length;
+  const seen = Array(n).fill(false);
+  const sets: Set<number>[] = [];
+  for (let start = 1; start < n; start++) {
+    if (seen[start]) continue;
+    const set = new Set([start]);
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length > 0) {
+      const i = stack.pop();
+      for (let j = 1; j < n; j++) {
+        if (!seen[j] && x[i][j] + x[j][i] >= threshold) {
+          seen[j] = true;
+          set.add(j);
+          stack.push(j);
+        }
+      }
+    }
+    sets.push(set);
+  }
+  return sets;
+}
@@ -1,15 +1,87 @@
-import { VRPProblem, VRPSolution, Route } from '../types';
+import { VRPProblem, VRPSolution, Route, ClassicalParams, ConstructionMethod } from '../types';
+import { routeLoad, vehicleCapacity, travelTime, hasTimeWindows, scheduleRoute } from '../quantum/qubo';
+import { savingsRoutes } from './savings';
+import { improveSolution } from './localSearch';
+import { runMetaheuristic } from './metaheuristics';
+import { randomSeed } from '../random';
+
+export const CONSTRUCTION_NAMES: Record<ConstructionMethod, string> = {
+  greedy: 'Greedy',
+  'savings-parallel': 'Clarke–Wright (parallel)',
+  'savings-sequential': 'Clarke–Wright (sequential)'
+};
+
+export const defaultClassicalParams: ClassicalParams = {
+  construction: 'greedy',
+  metaheuristic: 'none',
+  timeLimit: 5,
+  maxIterations: 100000,
+  seed: randomSeed(),
+  localSearch: true,
+  polishQuantum: false
+};
 
 /**
- * Solves VRP using a greedy classical algorithm
+ * Solves VRP using a classical construction heuristic
  * In a production implementation, this would use Google OR-Tools
  * 
+ * The constructed routes are improved by the chosen metaheuristic, if any,
+ * and then by local search unless it is turned off.
+ * 
  * @param problem The VRP problem
+ * @param params Classical solver parameters
+ * @param onProgress Called with the metaheuristic's best solution so far
  * @returns The VRP solution
  */
-export async function solveVRPClassical(problem: VRPProblem): Promise<VRPSolution> {
+export async function solveVRPClassical(
+  problem: VRPProblem,
+  params: ClassicalParams = defaultClassicalParams,
+  onProgress?: (best: VRPSolution) => void
+): Promise<VRPSolution> {
   const startTime = performance.now();
   
+  const { construction } = params;
+  const routes = construction === 'greedy'
+    ? greedyRoutes(problem)
+    : savingsRoutes(problem, construction === 'savings-parallel' ? 'parallel' : 'sequential');
+  
+  const totalDistance = routes.reduce((sum, route) => sum + route.distance, 0);
+  const executionTime = performance.now() - startTime;
+  
+  const constructed: VRPSolution = {
+    routes: routes.map(route => scheduleRoute(route, problem)),
+    totalDistance,
+    executionTime,
+    solver: 'classical',
+    algorithm: CONSTRUCTION_NAMES[construction],
+    // Only the metaheuristics draw random numbers
+    seed: params.metaheuristic === 'none' ? undefined : params.seed
+  };
+  
+  const solution = await runMetaheuristic(problem, constructed, params, onProgress);
+  if (!params.localSearch) return solution;
+  
+  const improved = improveSolution(solution, problem);
+  return { ...improved, algorithm: `${improved.algorithm} + local search` };
+}
+
+/**
+ * Builds routes with a greedy nearest-neighbour round robin
+ * 
+ * Vehicles take turns moving to the closest unassigned node whose demand
+ * still fits in their remaining capacity (CVRP); a vehicle that has no such
+ * node left returns to the depot and sits out the remaining turns.
+ * 
+ * With time windows (VRPTW) a vehicle only considers nodes where service can
+ * begin before the window closes and still leave time to get back to the
+ * depot, and takes the one where service can begin soonest. Nodes no vehicle
+ * can reach in time are then served late, soonest first, rather than
+ * dropped; the lateness is reported on the route.
+ * 
+ * @param problem The VRP problem
+ * @returns One route per vehicle
+ */
+function greedyRoutes(problem: VRPProblem): Route[] {
   const { nodes, vehicles, distanceMatrix } = problem;
   const n = nodes.length;
   const v = vehicles.length;
@@ -23,29 +95,63 @@ export async function solveVRPClassical(problem: VRPProblem): Promise<VRPSolutio
   
   // Assign nodes to vehicles in a greedy manner
   const unassignedNodes = new Set([...Array(n).keys()].slice(1)); // All nodes except depot
+  const remaining = vehicles.map(vehicle => vehicleCapacity(vehicle.id, problem));
+  const full = Array(v).fill(false);
   let currentVehicle = 0;
   
+  // Time each vehicle is done at its last node
+  const timeWindows = hasTimeWindows(problem);
+  const depot = nodes[0];
+  const clock = Array(v).fill(depot.earliest ?? 0);
+  let allowLate = false;
+  
   while (unassignedNodes.size > 0) {
+    if (full.every(Boolean) && timeWindows && !allowLate) {
+      allowLate = true;
+      full.fill(false);
+    }
+    
+    if (full.every(Boolean)) {
+      const fleetCapacity = vehicles.reduce((sum, vehicle) => sum + vehicleCapacity(vehicle.id, problem), 0);
+      throw new Error(
+        `Nodes ${[...unassignedNodes].join(', ')} do not fit in the remaining capacity of any vehicle ` +
+        `(total demand ${routeLoad([...Array(n).keys()], problem)}, fleet capacity ${fleetCapacity}).`
+      );
+    }
+    
     const vehicle = routes[currentVehicle];
     const currentNode = vehicle.path[vehicle.path.length - 1];
     
-    // Find closest unassigned node
+    // Find closest unassigned node that fits, or the soonest one to serve with time windows
     let bestNode = -1;
-    let bestDistance = Infinity;
+    let bestKey = Infinity;
+    let bestStart = 0;
     
     for (const node of unassignedNodes) {
-      const dist = distanceMatrix[currentNode][node];
-      if (dist < bestDistance) {
-        bestDistance = dist;
+      if ((nodes[node].demand ?? 0) > remaining[currentVehicle]) continue;
+      
+      const { earliest = 0, latest = Infinity, serviceTime = 0 } = nodes[node];
+      const start = Math.max(clock[currentVehicle] + travelTime(problem, currentNode, node), earliest);
+      const onTime = start <= latest && start + serviceTime + travelTime(problem, node, 0) <= (depot.latest ?? Infinity);
+      if (timeWindows && !allowLate && !onTime) continue;
+      
+      const key = timeWindows ? start : distanceMatrix[currentNode][node];
+      if (key < bestKey) {
+        bestKey = key;
         bestNode = node;
+        bestStart = start;
       }
     }
     
     // Assign node to current vehicle
     if (bestNode !== -1) {
       vehicle.path.push(bestNode);
-      vehicle.distance += bestDistance;
+      vehicle.distance += distanceMatrix[currentNode][bestNode];
+      remaining[currentVehicle] -= nodes[bestNode].demand ?? 0;
+      clock[currentVehicle] = bestStart + (nodes[bestNode].serviceTime ?? 0);
       unassignedNodes.delete(bestNode);
+    } else {
+      full[currentVehicle] = true;
     }
     
     // Move to next vehicle
@@ -61,13 +167,5 @@ export async function solveVRPClassical(problem: VRPProblem): Promise<VRPSolutio
     }
   }
   
-  const totalDistance = routes.reduce((sum, route) => sum + route.distance, 0);
-  const executionTime = performance.now() - startTime;
-  
-  return {
-    routes,
-    totalDistance,
-    executionTime,
-    solver: 'classical'
-  };
+  return routes;
 }
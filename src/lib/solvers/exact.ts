@@ -0,0 +1,192 @@
+import { VRPProblem, VRPSolution, Vehicle, ExactReport } from '../types';
+import { vehicleCapacity, hasTimeWindows, scheduleRoute } from '../quantum/qubo';
+
+/** Largest problem, depot included, the exact solver takes on */
+export const MAX_EXACT_NODES = 12;
+
+export const EXACT_METHOD_NAMES: Record<ExactReport['method'], string> = {
+  'held-karp': 'Held–Karp',
+  'set-partitioning': 'Branch-and-bound (set partitioning)'
+};
+
+const EPSILON = 1e-9;
+
+/**
+ * Solves a small VRP to proven optimality
+ *
+ * Held–Karp dynamic programming finds the shortest depot round trip through
+ * every set of customers a single vehicle can carry. With one vehicle the
+ * set of all customers is the answer. With more, branch-and-bound picks the
+ * routes: each branch covers the lowest uncovered customer with one of the
+ * priced customer sets and hands it to the smallest free vehicle that can
+ * carry it, and a branch is cut when its cost plus a bound on the rest
+ * cannot beat the best solution so far. The bound charges each uncovered
+ * customer its cheapest share of a route, the route's cost divided by its
+ * number of customers.
+ *
+ * Capacity is respected; time windows are not, so on a VRPTW problem the
+ * result is the optimum of the relaxed problem, a lower bound.
+ *
+ * @param problem The VRP problem, at most MAX_EXACT_NODES nodes
+ * @returns The optimal solution, with search statistics
+ */
+export async function solveVRPExact(problem: VRPProblem): Promise<VRPSolution> {
+  const startTime = performance.now();
+
+  const { nodes, vehicles, distanceMatrix: d } = problem;
+  const n = nodes.length;
+  if (n > MAX_EXACT_NODES) {
+    throw new Error(`The exact solver handles up to ${MAX_EXACT_NODES} nodes; this problem has ${n}.`);
+  }
+
+  // Customer k + 1 is bit k of a customer set
+  const m = n - 1;
+  const sets = 1 << m;
+  const full = sets - 1;
+  const bit = (set: number) => 31 - Math.clz32(set & -set);
+  const maxCapacity = Math.max(...vehicles.map(vehicle => vehicleCapacity(vehicle.id, problem)));
+
+  const load = new Float64Array(sets);
+  const size = new Uint8Array(sets);
+  for (let set = 1; set < sets; set++) {
+    const k = bit(set);
+    load[set] = load[set & (set - 1)] + (nodes[k + 1].demand ?? 0);
+    size[set] = size[set & (set - 1)] + 1;
+  }
+
+  // Held–Karp: shortest path from the depot through a set, ending at one of its customers
+  const path = new Float64Array(sets * Math.max(m, 1)).fill(Infinity);
+  const parent = new Int8Array(sets * Math.max(m, 1)).fill(-1);
+  for (let k = 0; k < m; k++) {
+    if (load[1 << k] <= maxCapacity) path[(1 << k) * m + k] = d[0][k + 1];
+  }
+
+  let states = 0;
+  const routeCost = new Float64Array(sets).fill(Infinity);
+  const routeEnd = new Int8Array(sets).fill(-1);
+  for (let set = 1; set < sets; set++) {
+    if (load[set] > maxCapacity) continue;
+    for (let j = 0; j < m; j++) {
+      const cost = path[set * m + j];
+      if (cost === Infinity) continue;
+      states++;
+
+      if (cost + d[j + 1][0] < routeCost[set]) {
+        routeCost[set] = cost + d[j + 1][0];
+        routeEnd[set] = j;
+      }
+
+      for (let k = 0; k < m; k++) {
+        const next = set | (1 << k);
+        if (next === set || load[next] > maxCapacity) continue;
+        if (cost + d[j + 1][k + 1] < path[next * m + k]) {
+          path[next * m + k] = cost + d[j + 1][k + 1];
+          parent[next * m + k] = j;
+        }
+      }
+    }
+  }
+  let routes = 0;
+  for (let set = 1; set < sets; set++) if (routeCost[set] < Infinity) routes++;
+
+  // Customers of a set in visiting order
+  const order = (set: number) => {
+    const sequence: number[] = [];
+    let j = routeEnd[set];
+    while (set) {
+      sequence.unshift(j + 1);
+      const previous = parent[set * m + j];
+      set &= ~(1 << j);
+      j = previous;
+    }
+    return sequence;
+  };
+
+  let chosen: { set: number; vehicle: Vehicle }[] = [];
+  let nodesExplored = 0;
+  let pruned = 0;
+
+  if (m === 0) {
+    chosen = [];
+  } else if (vehicles.length === 1) {
+    if (routeCost[full] === Infinity) {
+      throw new Error(`The total demand ${load[full]} is more than the vehicle can carry (${maxCapacity}).`);
+    }
+    chosen = [{ set: full, vehicle: vehicles[0] }];
+  } else {
+    // Cheapest share of a route for each customer, summed over a set for the bound
+    const share = Array(m).fill(Infinity);
+    for (let set = 1; set < sets; set++) {
+      if (routeCost[set] === Infinity) continue;
+      for (let k = 0; k < m; k++) {
+        if (set & (1 << k)) share[k] = Math.min(share[k], routeCost[set] / size[set]);
+      }
+    }
+    const bound = new Float64Array(sets);
+    for (let set = 1; set < sets; set++) bound[set] = bound[set & (set - 1)] + share[bit(set)];
+
+    let best = Infinity;
+    const fleet = [...vehicles].sort((a, b) => vehicleCapacity(a.id, problem) - vehicleCapacity(b.id, problem));
+
+    const branch = (uncovered: number, cost: number, free: Vehicle[], taken: { set: number; vehicle: Vehicle }[]) => {
+      nodesExplored++;
+      if (uncovered === 0) {
+        if (cost < best) {
+          best = cost;
+          chosen = [...taken];
+        }
+        return;
+      }
+      const freeCapacity = free.reduce((sum, vehicle) => sum + vehicleCapacity(vehicle.id, problem), 0);
+      if (free.length === 0 || load[uncovered] > freeCapacity || cost + bound[uncovered] >= best - EPSILON) {
+        pruned++;
+        return;
+      }
+
+      // Routes covering the lowest uncovered customer, cheapest per customer first
+      const lowest = uncovered & -uncovered;
+      const largest = vehicleCapacity(free[free.length - 1].id, problem);
+      const candidates: number[] = [];
+      for (let set = uncovered; set; set = (set - 1) & uncovered) {
+        if ((set & lowest) && routeCost[set] < Infinity && load[set] <= largest) candidates.push(set);
+      }
+      candidates.sort((a, b) => routeCost[a] / size[a] - routeCost[b] / size[b]);
+
+      for (const set of candidates) {
+        // Capacities are nested, so the smallest vehicle that fits never blocks a solution
+        const index = free.findIndex(vehicle => vehicleCapacity(vehicle.id, problem) >= load[set]);
+        const vehicle = free[index];
+        taken.push({ set, vehicle });
+        branch(uncovered & ~set, cost + routeCost[set], [...free.slice(0, index), ...free.slice(index + 1)], taken);
+        taken.pop();
+      }
+    };
+
+    branch(full, 0, fleet, []);
+    if (best === Infinity) {
+      throw new Error(`No way to split the customers among ${vehicles.length} vehicles respects capacity.`);
+    }
+  }
+
+  const solutionRoutes = chosen.map(({ set, vehicle }) => scheduleRoute({
+    vehicleId: vehicle.id,
+    path: [0, ...order(set), 0],
+    distance: routeCost[set]
+  }, problem));
+
+  return {
+    routes: solutionRoutes,
+    totalDistance: solutionRoutes.reduce((sum, route) => sum + route.distance, 0),
+    executionTime: performance.now() - startTime,
+    solver: 'classical',
+    algorithm: EXACT_METHOD_NAMES[vehicles.length === 1 ? 'held-karp' : 'set-partitioning'],
+    exact: {
+      method: vehicles.length === 1 ? 'held-karp' : 'set-partitioning',
+      states,
+      routes,
+      nodes: nodesExplored,
+      pruned,
+      timeWindowsRelaxed: hasTimeWindows(problem)
+    }
+  };
+}
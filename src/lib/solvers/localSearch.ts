@@ -0,0 +1,205 @@
+import { VRPProblem, VRPSolution, LocalSearchOperator, LocalSearchReport } from '../types';
+import { routeLoad, vehicleCapacity, hasTimeWindows, scheduleRoute } from '../quantum/qubo';
+
+export const LOCAL_SEARCH_OPERATORS: Record<LocalSearchOperator, string> = {
+  '2-opt': '2-opt',
+  'or-opt': 'Or-opt',
+  relocate: 'Relocate',
+  swap: 'Swap',
+  cross: 'CROSS exchange'
+};
+
+/** Longest segment moved by Or-opt and exchanged by CROSS */
+const MAX_SEGMENT = 3;
+
+/** Smallest change that counts as an improvement */
+const EPSILON = 1e-9;
+
+/** New customer sequence for each vehicle a move changes, by vehicle index */
+type Move = Map<number, number[]>;
+
+/**
+ * Improves a solution with local search until no move shortens it
+ *
+ * Intra-route moves:
+ * - 2-opt: reverse a stretch of a route
+ * - Or-opt: move a stretch of up to three customers elsewhere in its route
+ *
+ * Inter-route moves:
+ * - relocate: move a customer to another vehicle, which may be unused
+ * - swap: exchange two customers between vehicles
+ * - CROSS: exchange stretches of up to three customers between vehicles
+ *
+ * Operators run in that order and the first improving move is taken; after
+ * any move the search starts again from 2-opt (variable neighbourhood
+ * descent). A move is rejected if it leaves a vehicle over capacity, unless
+ * the vehicle was already at least that overloaded, or if it adds lateness
+ * on a VRPTW problem. Works on quantum solutions that miss or repeat
+ * customers too; those customers stay missing or repeated.
+ *
+ * @param solution The solution to improve
+ * @param problem The VRP problem
+ * @returns The improved solution, with what each operator saved
+ */
+export function improveSolution(solution: VRPSolution, problem: VRPProblem): VRPSolution {
+  const startTime = performance.now();
+
+  const { vehicles, distanceMatrix: d } = problem;
+  const sequences = vehicles.map(vehicle => {
+    const route = solution.routes.find(route => route.vehicleId === vehicle.id);
+    return route ? route.path.filter(node => node !== 0) : [];
+  });
+  const used = vehicles.map(vehicle => solution.routes.some(route => route.vehicleId === vehicle.id));
+  const capacity = vehicles.map(vehicle => vehicleCapacity(vehicle.id, problem));
+  const timeWindows = hasTimeWindows(problem);
+
+  const cost = (sequence: number[]) => {
+    if (sequence.length === 0) return 0;
+    let distance = d[0][sequence[0]] + d[sequence[sequence.length - 1]][0];
+    for (let k = 1; k < sequence.length; k++) distance += d[sequence[k - 1]][sequence[k]];
+    return distance;
+  };
+  const lateness = (k: number, sequence: number[]) => sequence.length === 0 ? 0 :
+    scheduleRoute({ vehicleId: vehicles[k].id, path: [0, ...sequence, 0], distance: 0 }, problem).lateness;
+
+  const contributions = Object.fromEntries(
+    (Object.keys(LOCAL_SEARCH_OPERATORS) as LocalSearchOperator[]).map(operator => [operator, { moves: 0, saving: 0 }])
+  ) as Record<LocalSearchOperator, { moves: number; saving: number }>;
+
+  // Applies the move if it saves distance within capacity and time windows
+  const tryMove = (operator: LocalSearchOperator, move: Move): boolean => {
+    let saving = 0;
+    for (const [k, sequence] of move) saving += cost(sequences[k]) - cost(sequence);
+    if (saving <= EPSILON) return false;
+
+    for (const [k, sequence] of move) {
+      if (routeLoad(sequence, problem) > Math.max(capacity[k], routeLoad(sequences[k], problem))) return false;
+    }
+    if (timeWindows) {
+      let added = 0;
+      for (const [k, sequence] of move) added += lateness(k, sequence) - lateness(k, sequences[k]);
+      if (added > EPSILON) return false;
+    }
+
+    for (const [k, sequence] of move) sequences[k] = sequence;
+    contributions[operator].moves++;
+    contributions[operator].saving += saving;
+    return true;
+  };
+
+  const twoOpt = () => {
+    for (let k = 0; k < sequences.length; k++) {
+      const route = sequences[k];
+      for (let i = 0; i < route.length - 1; i++) {
+        for (let j = i + 1; j < route.length; j++) {
+          const reversed = [...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)];
+          if (tryMove('2-opt', new Map([[k, reversed]]))) return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const orOpt = () => {
+    for (let k = 0; k < sequences.length; k++) {
+      const route = sequences[k];
+      for (let length = 1; length <= Math.min(MAX_SEGMENT, route.length - 1); length++) {
+        for (let i = 0; i + length <= route.length; i++) {
+          const segment = route.slice(i, i + length);
+          const rest = [...route.slice(0, i), ...route.slice(i + length)];
+          for (let position = 0; position <= rest.length; position++) {
+            if (position === i) continue;
+            const moved = [...rest.slice(0, position), ...segment, ...rest.slice(position)];
+            if (tryMove('or-opt', new Map([[k, moved]]))) return true;
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  const relocate = () => {
+    for (let a = 0; a < sequences.length; a++) {
+      for (let i = 0; i < sequences[a].length; i++) {
+        const from = [...sequences[a].slice(0, i), ...sequences[a].slice(i + 1)];
+        for (let b = 0; b < sequences.length; b++) {
+          if (b === a) continue;
+          for (let position = 0; position <= sequences[b].length; position++) {
+            const to = [...sequences[b].slice(0, position), sequences[a][i], ...sequences[b].slice(position)];
+            if (tryMove('relocate', new Map([[a, from], [b, to]]))) return true;
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  const swap = () => {
+    for (let a = 0; a < sequences.length; a++) {
+      for (let b = a + 1; b < sequences.length; b++) {
+        for (let i = 0; i < sequences[a].length; i++) {
+          for (let j = 0; j < sequences[b].length; j++) {
+            const first = [...sequences[a]];
+            const second = [...sequences[b]];
+            [first[i], second[j]] = [second[j], first[i]];
+            if (tryMove('swap', new Map([[a, first], [b, second]]))) return true;
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  const cross = () => {
+    for (let a = 0; a < sequences.length; a++) {
+      for (let b = a + 1; b < sequences.length; b++) {
+        const first = sequences[a];
+        const second = sequences[b];
+        for (let i = 0; i < first.length; i++) {
+          for (let lengthA = 1; lengthA <= MAX_SEGMENT && i + lengthA <= first.length; lengthA++) {
+            for (let j = 0; j < second.length; j++) {
+              for (let lengthB = 1; lengthB <= MAX_SEGMENT && j + lengthB <= second.length; lengthB++) {
+                // Single customers are the swap operator's job
+                if (lengthA === 1 && lengthB === 1) continue;
+                const newFirst = [...first.slice(0, i), ...second.slice(j, j + lengthB), ...first.slice(i + lengthA)];
+                const newSecond = [...second.slice(0, j), ...first.slice(i, i + lengthA), ...second.slice(j + lengthB)];
+                if (tryMove('cross', new Map([[a, newFirst], [b, newSecond]]))) return true;
+              }
+            }
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  const operators = [twoOpt, orOpt, relocate, swap, cross];
+  let current = 0;
+  while (current < operators.length) {
+    current = operators[current]() ? 0 : current + 1;
+  }
+
+  const routes = vehicles.flatMap((vehicle, k) => {
+    if (!used[k] && sequences[k].length === 0) return [];
+    const path = sequences[k].length > 0 ? [0, ...sequences[k], 0] : [0];
+    return [scheduleRoute({ vehicleId: vehicle.id, path, distance: cost(sequences[k]) }, problem)];
+  });
+  const totalDistance = routes.reduce((sum, route) => sum + route.distance, 0);
+  const executionTime = performance.now() - startTime;
+
+  const localSearch: LocalSearchReport = {
+    initialDistance: solution.totalDistance,
+    finalDistance: totalDistance,
+    executionTime,
+    operators: (Object.keys(LOCAL_SEARCH_OPERATORS) as LocalSearchOperator[])
+      .map(operator => ({ operator, ...contributions[operator] }))
+  };
+
+  return {
+    ...solution,
+    routes,
+    totalDistance,
+    executionTime: solution.executionTime + executionTime,
+    localSearch
+  };
+}
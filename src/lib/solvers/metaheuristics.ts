@@ -0,0 +1,480 @@
+import { VRPProblem, VRPSolution, ClassicalParams, MetaheuristicType, MetaheuristicReport } from '../types';
+import { routeLoad, vehicleCapacity, hasTimeWindows, scheduleRoute } from '../quantum/qubo';
+import { createRandom, randomInt, RandomSource } from '../random';
+
+export const METAHEURISTIC_NAMES: Record<MetaheuristicType, string> = {
+  none: 'None',
+  annealing: 'Simulated annealing',
+  tabu: 'Tabu search',
+  alns: 'Adaptive large neighbourhood search'
+};
+
+/** How often the search hands the best solution so far to the UI, in ms */
+const PROGRESS_INTERVAL = 100;
+
+/** Final temperature as a fraction of the initial one */
+const FINAL_TEMPERATURE_RATIO = 1e-3;
+
+/** Random moves sampled per tabu search iteration */
+const TABU_CANDIDATES = 50;
+
+/** ALNS scores for a new best, an improving and an accepted solution */
+const ALNS_SCORES = { best: 33, better: 9, accepted: 13 };
+
+/** ALNS iterations between weight updates, and the weight reaction factor */
+const ALNS_SEGMENT = 50;
+const ALNS_REACTION = 0.2;
+
+const EPSILON = 1e-9;
+
+/** New customer sequence for each vehicle a move changes, by vehicle index */
+type Move = Map<number, number[]>;
+
+type Search = {
+  problem: VRPProblem;
+  random: RandomSource;
+  routes: number[][]; // Customer sequence per vehicle index
+  costs: number[]; // Penalized cost of each route
+  total: number;
+  bestTotal: number;
+  cost: (k: number, sequence: number[]) => number;
+};
+
+/**
+ * Improves a solution with a metaheuristic until the time or iteration budget
+ * runs out
+ *
+ * All three search the same space, one customer sequence per vehicle, and
+ * score it by distance plus a penalty of twice the longest edge per unit of
+ * overload or lateness, so they can pass through infeasible solutions:
+ * - annealing: a random 2-opt, Or-opt, relocate or swap move each iteration,
+ *   accepted by the Metropolis rule; the temperature falls geometrically with
+ *   the spent share of the budget, starting where an average uphill move is
+ *   accepted half the time
+ * - tabu: the best of 50 random moves each iteration, even if it is worse;
+ *   customers that moved may not move again for a while unless that gives a
+ *   new best
+ * - alns: remove customers (random, worst or related removal) and put them
+ *   back (greedy or regret-2 insertion), choosing operators by weights that
+ *   adapt to how often they found better solutions; accepted as in annealing
+ *
+ * The best solution so far is handed to `onProgress` whenever it improves,
+ * at most every 100 ms, and the search yields to the browser in between.
+ *
+ * @param problem The VRP problem
+ * @param solution The starting solution
+ * @param params Classical solver parameters
+ * @param onProgress Called with the best solution so far
+ * @returns The best solution found, with a report of the search
+ */
+export async function runMetaheuristic(
+  problem: VRPProblem,
+  solution: VRPSolution,
+  params: ClassicalParams,
+  onProgress?: (best: VRPSolution) => void
+): Promise<VRPSolution> {
+  const { metaheuristic: method, seed, maxIterations } = params;
+  if (method === 'none') return solution;
+
+  const startTime = performance.now();
+  const timeLimit = params.timeLimit * 1000;
+  const { vehicles, distanceMatrix: d } = problem;
+
+  const capacity = vehicles.map(vehicle => vehicleCapacity(vehicle.id, problem));
+  const timeWindows = hasTimeWindows(problem);
+  let maxEdge = 0;
+  d.forEach((row, i) => row.forEach((distance, j) => {
+    if (i !== j) maxEdge = Math.max(maxEdge, distance);
+  }));
+  const weight = 2 * (maxEdge || 1);
+
+  const distance = (sequence: number[]) => {
+    if (sequence.length === 0) return 0;
+    let total = d[0][sequence[0]] + d[sequence[sequence.length - 1]][0];
+    for (let k = 1; k < sequence.length; k++) total += d[sequence[k - 1]][sequence[k]];
+    return total;
+  };
+  const cost = (k: number, sequence: number[]) => {
+    if (sequence.length === 0) return 0;
+    let violation = Math.max(0, routeLoad(sequence, problem) - capacity[k]);
+    if (timeWindows) {
+      violation += scheduleRoute({ vehicleId: vehicles[k].id, path: [0, ...sequence, 0], distance: 0 }, problem).lateness;
+    }
+    return distance(sequence) + weight * violation;
+  };
+
+  const routes = vehicles.map(vehicle => {
+    const route = solution.routes.find(route => route.vehicleId === vehicle.id);
+    return route ? route.path.filter(node => node !== 0) : [];
+  });
+  const used = vehicles.map(vehicle => solution.routes.some(route => route.vehicleId === vehicle.id));
+  const costs = routes.map((sequence, k) => cost(k, sequence));
+  const total = costs.reduce((sum, c) => sum + c, 0);
+  const search: Search = { problem, random: createRandom(seed), routes, costs, total, bestTotal: total, cost };
+
+  let best = routes.map(sequence => [...sequence]);
+  const toSolution = (elapsed: number, report?: MetaheuristicReport): VRPSolution => {
+    const bestRoutes = vehicles.flatMap((vehicle, k) => {
+      if (!used[k] && best[k].length === 0) return [];
+      const path = best[k].length > 0 ? [0, ...best[k], 0] : [0];
+      return [scheduleRoute({ vehicleId: vehicle.id, path, distance: distance(best[k]) }, problem)];
+    });
+    return {
+      ...solution,
+      routes: bestRoutes,
+      totalDistance: bestRoutes.reduce((sum, route) => sum + route.distance, 0),
+      executionTime: solution.executionTime + elapsed,
+      algorithm: `${solution.algorithm} → ${METAHEURISTIC_NAMES[method]}`,
+      metaheuristic: report
+    };
+  };
+
+  const step = method === 'annealing' ? annealingStep(search)
+    : method === 'tabu' ? tabuStep(search)
+    : alnsStep(search);
+
+  const trace: MetaheuristicReport['trace'] = [{ iteration: 0, time: 0, distance: solution.totalDistance }];
+  let iteration = 0;
+  let stoppedBy: MetaheuristicReport['stoppedBy'] = 'iterations';
+  let lastProgress = startTime;
+  let improved = false;
+
+  while (iteration < maxIterations) {
+    const elapsed = performance.now() - startTime;
+    if (elapsed >= timeLimit) {
+      stoppedBy = 'time';
+      break;
+    }
+
+    step.run(iteration, Math.max(iteration / maxIterations, elapsed / timeLimit));
+    iteration++;
+
+    if (search.total < search.bestTotal - EPSILON) {
+      search.bestTotal = search.total;
+      best = search.routes.map(sequence => [...sequence]);
+      trace.push({ iteration, time: elapsed, distance: best.reduce((sum, sequence) => sum + distance(sequence), 0) });
+      improved = true;
+    }
+
+    if (performance.now() - lastProgress >= PROGRESS_INTERVAL) {
+      if (improved && onProgress) onProgress(toSolution(performance.now() - startTime));
+      improved = false;
+      await new Promise(resolve => setTimeout(resolve, 0));
+      lastProgress = performance.now();
+    }
+  }
+
+  const elapsed = performance.now() - startTime;
+  return toSolution(elapsed, {
+    method,
+    seed,
+    iterations: iteration,
+    elapsed,
+    stoppedBy,
+    trace,
+    operatorWeights: step.weights?.()
+  });
+}
+
+type Step = {
+  run: (iteration: number, progress: number) => void;
+  weights?: () => { operator: string; weight: number }[];
+};
+
+/**
+ * A random 2-opt, Or-opt, relocate or swap move
+ *
+ * @param search The search state
+ * @returns The move and the customers it moves, or null if the drawn operator does not apply
+ */
+function randomMove(search: Search): { move: Move; moved: number[] } | null {
+  const { routes, random } = search;
+  const nonEmpty = routes.map((_, k) => k).filter(k => routes[k].length > 0);
+  if (nonEmpty.length === 0) return null;
+  const a = nonEmpty[randomInt(random, nonEmpty.length)];
+  const route = routes[a];
+
+  switch (randomInt(random, 4)) {
+    case 0: {
+      // 2-opt
+      if (route.length < 2) return null;
+      const i = randomInt(random, route.length - 1);
+      const j = i + 1 + randomInt(random, route.length - i - 1);
+      const reversed = [...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)];
+      return { move: new Map([[a, reversed]]), moved: [route[i], route[j]] };
+    }
+    case 1: {
+      // Or-opt
+      if (route.length < 2) return null;
+      const length = 1 + randomInt(random, Math.min(3, route.length - 1));
+      const i = randomInt(random, route.length - length + 1);
+      const segment = route.slice(i, i + length);
+      const rest = [...route.slice(0, i), ...route.slice(i + length)];
+      const position = randomInt(random, rest.length + 1);
+      if (position === i) return null;
+      return { move: new Map([[a, [...rest.slice(0, position), ...segment, ...rest.slice(position)]]]), moved: segment };
+    }
+    case 2: {
+      // Relocate
+      if (routes.length < 2) return null;
+      const b = (a + 1 + randomInt(random, routes.length - 1)) % routes.length;
+      const i = randomInt(random, route.length);
+      const position = randomInt(random, routes[b].length + 1);
+      return {
+        move: new Map([
+          [a, [...route.slice(0, i), ...route.slice(i + 1)]],
+          [b, [...routes[b].slice(0, position), route[i], ...routes[b].slice(position)]]
+        ]),
+        moved: [route[i]]
+      };
+    }
+    default: {
+      // Swap
+      const others = nonEmpty.filter(k => k !== a);
+      if (others.length === 0) return null;
+      const b = others[randomInt(random, others.length)];
+      const i = randomInt(random, route.length);
+      const j = randomInt(random, routes[b].length);
+      const first = [...route];
+      const second = [...routes[b]];
+      [first[i], second[j]] = [second[j], first[i]];
+      return { move: new Map([[a, first], [b, second]]), moved: [route[i], routes[b][j]] };
+    }
+  }
+}
+
+function moveDelta(search: Search, move: Move): number {
+  let delta = 0;
+  for (const [k, sequence] of move) delta += search.cost(k, sequence) - search.costs[k];
+  return delta;
+}
+
+function applyMove(search: Search, move: Move) {
+  for (const [k, sequence] of move) {
+    const cost = search.cost(k, sequence);
+    search.total += cost - search.costs[k];
+    search.routes[k] = sequence;
+    search.costs[k] = cost;
+  }
+}
+
+/**
+ * Temperature at which an average uphill move is accepted half the time
+ *
+ * @param search The search state
+ * @returns The starting temperature
+ */
+function initialTemperature(search: Search): number {
+  let sum = 0;
+  let count = 0;
+  for (let sample = 0; sample < 100; sample++) {
+    const candidate = randomMove(search);
+    if (!candidate) continue;
+    const delta = moveDelta(search, candidate.move);
+    if (delta > 0) {
+      sum += delta;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count / Math.LN2 : 1;
+}
+
+function temperature(start: number, progress: number): number {
+  return start * Math.pow(FINAL_TEMPERATURE_RATIO, progress);
+}
+
+function annealingStep(search: Search): Step {
+  const start = initialTemperature(search);
+
+  return {
+    run: (_iteration, progress) => {
+      const candidate = randomMove(search);
+      if (!candidate) return;
+      const delta = moveDelta(search, candidate.move);
+      if (delta <= 0 || search.random() < Math.exp(-delta / temperature(start, progress))) {
+        applyMove(search, candidate.move);
+      }
+    }
+  };
+}
+
+function tabuStep(search: Search): Step {
+  const n = search.problem.nodes.length;
+  const tabuUntil = Array(n).fill(-1);
+  const tenure = Math.max(5, Math.ceil((n - 1) / 2));
+
+  return {
+    run: (iteration) => {
+      let chosen: { move: Move; moved: number[] } | null = null;
+      let chosenDelta = Infinity;
+
+      for (let sample = 0; sample < TABU_CANDIDATES; sample++) {
+        const candidate = randomMove(search);
+        if (!candidate) continue;
+        const delta = moveDelta(search, candidate.move);
+        const tabu = candidate.moved.some(node => tabuUntil[node] > iteration);
+        // Aspiration: a tabu move is allowed if it gives a new best
+        if (tabu && search.total + delta >= search.bestTotal - EPSILON) continue;
+        if (delta < chosenDelta) {
+          chosen = candidate;
+          chosenDelta = delta;
+        }
+      }
+
+      if (!chosen) return;
+      applyMove(search, chosen.move);
+      for (const node of chosen.moved) tabuUntil[node] = iteration + tenure;
+    }
+  };
+}
+
+function alnsStep(search: Search): Step {
+  const { problem, random, cost } = search;
+  const d = problem.distanceMatrix;
+  const customers = problem.nodes.length - 1;
+  const maxRemoved = Math.max(1, Math.ceil(0.4 * customers));
+  const start = initialTemperature(search);
+
+  // Customers on a route, with the route they are on
+  const routed = (routes: number[][]) => routes.flatMap((sequence, k) => sequence.map(node => ({ node, k })));
+  const without = (sequence: number[], node: number) => sequence.filter(other => other !== node);
+
+  const destroyers: { name: string; remove: (routes: number[][], count: number) => number[] }[] = [
+    {
+      name: 'Random removal',
+      remove: (routes, count) => {
+        const pool = routed(routes).map(({ node }) => node);
+        const removed: number[] = [];
+        while (removed.length < count && pool.length > 0) {
+          removed.push(pool.splice(randomInt(random, pool.length), 1)[0]);
+        }
+        return removed;
+      }
+    },
+    {
+      name: 'Worst removal',
+      remove: (routes, count) => {
+        // Costliest customers first, with some randomness in the order
+        const pool = routed(routes)
+          .map(({ node, k }) => ({ node, saving: cost(k, routes[k]) - cost(k, without(routes[k], node)) }))
+          .sort((x, y) => y.saving - x.saving);
+        const removed: number[] = [];
+        while (removed.length < count && pool.length > 0) {
+          removed.push(pool.splice(Math.floor(Math.pow(random(), 3) * pool.length), 1)[0].node);
+        }
+        return removed;
+      }
+    },
+    {
+      name: 'Related removal',
+      remove: (routes, count) => {
+        // A random customer and the ones closest to it
+        const pool = routed(routes).map(({ node }) => node);
+        if (pool.length === 0) return [];
+        const seed = pool[randomInt(random, pool.length)];
+        return pool
+          .sort((x, y) => (d[seed][x] + d[x][seed]) - (d[seed][y] + d[y][seed]))
+          .slice(0, count);
+      }
+    }
+  ];
+
+  // Cheapest place for a customer in each route
+  const insertions = (routes: number[][], costs: number[], node: number) => routes.map((sequence, k) => {
+    let best = { k, position: 0, delta: Infinity };
+    for (let position = 0; position <= sequence.length; position++) {
+      const delta = cost(k, [...sequence.slice(0, position), node, ...sequence.slice(position)]) - costs[k];
+      if (delta < best.delta) best = { k, position, delta };
+    }
+    return best;
+  }).sort((x, y) => x.delta - y.delta);
+
+  // Inserts customers one at a time, choosing the next by the given score
+  const insertAll = (routes: number[][], costs: number[], pending: number[], regret: boolean) => {
+    while (pending.length > 0) {
+      let chosen = -1;
+      let chosenPlace = null;
+      let chosenScore = -Infinity;
+      pending.forEach((node, index) => {
+        const places = insertions(routes, costs, node);
+        const score = regret && places.length > 1
+          ? places[1].delta - places[0].delta
+          : -places[0].delta;
+        if (score > chosenScore) {
+          chosen = index;
+          chosenPlace = places[0];
+          chosenScore = score;
+        }
+      });
+      const node = pending.splice(chosen, 1)[0];
+      const { k, position } = chosenPlace;
+      routes[k] = [...routes[k].slice(0, position), node, ...routes[k].slice(position)];
+      costs[k] = cost(k, routes[k]);
+    }
+  };
+
+  const repairers: { name: string; insert: (routes: number[][], costs: number[], pending: number[]) => void }[] = [
+    { name: 'Greedy insertion', insert: (routes, costs, pending) => insertAll(routes, costs, pending, false) },
+    { name: 'Regret-2 insertion', insert: (routes, costs, pending) => insertAll(routes, costs, pending, true) }
+  ];
+
+  const destroyStats = destroyers.map(() => ({ weight: 1, score: 0, uses: 0 }));
+  const repairStats = repairers.map(() => ({ weight: 1, score: 0, uses: 0 }));
+
+  const roulette = (stats: { weight: number }[]) => {
+    let target = random() * stats.reduce((sum, entry) => sum + entry.weight, 0);
+    for (let index = 0; index < stats.length; index++) {
+      target -= stats[index].weight;
+      if (target < 0) return index;
+    }
+    return stats.length - 1;
+  };
+
+  const updateWeights = (stats: { weight: number; score: number; uses: number }[]) => {
+    for (const entry of stats) {
+      if (entry.uses > 0) {
+        entry.weight = (1 - ALNS_REACTION) * entry.weight + ALNS_REACTION * entry.score / entry.uses;
+      }
+      entry.score = 0;
+      entry.uses = 0;
+    }
+  };
+
+  return {
+    run: (iteration, progress) => {
+      const destroy = roulette(destroyStats);
+      const repair = roulette(repairStats);
+
+      const count = 1 + randomInt(random, maxRemoved);
+      const removed = destroyers[destroy].remove(search.routes, count);
+      const routes = search.routes.map(sequence => sequence.filter(node => !removed.includes(node)));
+      const costs = routes.map((sequence, k) => cost(k, sequence));
+      repairers[repair].insert(routes, costs, removed);
+
+      const total = costs.reduce((sum, c) => sum + c, 0);
+      const delta = total - search.total;
+      let score = 0;
+      if (delta <= 0 || random() < Math.exp(-delta / temperature(start, progress))) {
+        score = total < search.bestTotal - EPSILON ? ALNS_SCORES.best
+          : delta < -EPSILON ? ALNS_SCORES.better
+          : ALNS_SCORES.accepted;
+        search.routes = routes;
+        search.costs = costs;
+        search.total = total;
+      }
+
+      for (const entry of [destroyStats[destroy], repairStats[repair]]) {
+        entry.score += score;
+        entry.uses++;
+      }
+      if ((iteration + 1) % ALNS_SEGMENT === 0) {
+        updateWeights(destroyStats);
+        updateWeights(repairStats);
+      }
+    },
+    weights: () => [
+      ...destroyers.map(({ name }, index) => ({ operator: name, weight: destroyStats[index].weight })),
+      ...repairers.map(({ name }, index) => ({ operator: name, weight: repairStats[index].weight }))
+    ]
+  };
+}
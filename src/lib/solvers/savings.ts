@@ -0,0 +1,154 @@
+import { VRPProblem, Route } from '../types';
+import { routeLoad } from '../quantum/qubo';
+
+type Saving = { i: number; j: number; value: number };
+
+/**
+ * Builds routes with the Clarke–Wright savings heuristic
+ *
+ * Every customer starts on its own depot round trip. Joining the route that
+ * ends at i with the route that starts at j saves
+ * s_ij = d(i, 0) + d(0, j) - d(i, j), and pairs are tried from the largest
+ * saving down. A join is allowed when i and j are ends of different routes
+ * and the combined load fits a vehicle; on a symmetric matrix a route may be
+ * reversed to put i or j at the right end.
+ *
+ * - parallel: every route can grow at once, taking each join in savings order
+ * - sequential: one route grows until no join to an unrouted customer fits,
+ *   then the next route starts from the best remaining saving
+ *
+ * Savings stop at zero unless there are still more routes than vehicles, in
+ * which case the least costly joins that fit are made until the fleet
+ * suffices. Routes go to vehicles heaviest load first, largest capacity
+ * first. Time windows are not considered; the route schedule reports any
+ * lateness.
+ *
+ * @param problem The VRP problem
+ * @param variant Parallel or sequential savings
+ * @returns One route per used vehicle
+ */
+export function savingsRoutes(problem: VRPProblem, variant: 'parallel' | 'sequential'): Route[] {
+  const { nodes, vehicles, distanceMatrix: d } = problem;
+  const n = nodes.length;
+  const symmetric = d.every((row, i) => row.every((value, j) => value === d[j][i]));
+  const maxCapacity = Math.max(...vehicles.map(vehicle => vehicle.capacity ?? Infinity));
+
+  for (let node = 1; node < n; node++) {
+    if ((nodes[node].demand ?? 0) > maxCapacity) {
+      throw new Error(`Node ${node} has demand ${nodes[node].demand}, more than any vehicle can carry (${maxCapacity}).`);
+    }
+  }
+
+  // Every ordered pair of customers, largest saving first
+  const savings: Saving[] = [];
+  for (let i = 1; i < n; i++) {
+    for (let j = 1; j < n; j++) {
+      if (i !== j && (symmetric ? i < j : true)) {
+        savings.push({ i, j, value: d[i][0] + d[0][j] - d[i][j] });
+      }
+    }
+  }
+  savings.sort((a, b) => b.value - a.value);
+
+  // Customer sequences without the depot, and the one each customer is on
+  const routes = new Map<number, number[]>();
+  const routeOf = Array(n).fill(-1);
+  for (let node = 1; node < n; node++) {
+    routes.set(node, [node]);
+    routeOf[node] = node;
+  }
+  const load = (sequence: number[]) => routeLoad(sequence, problem);
+
+  // Joins the route ending at i to the route starting at j, if allowed
+  const join = (i: number, j: number): boolean => {
+    const a = routeOf[i];
+    const b = routeOf[j];
+    if (a === b) return false;
+
+    let first = routes.get(a);
+    let second = routes.get(b);
+    if (first[first.length - 1] !== i) {
+      if (!symmetric || first[0] !== i) return false;
+      first = [...first].reverse();
+    }
+    if (second[0] !== j) {
+      if (!symmetric || second[second.length - 1] !== j) return false;
+      second = [...second].reverse();
+    }
+    if (load(first) + load(second) > maxCapacity) return false;
+
+    const merged = [...first, ...second];
+    routes.delete(b);
+    routes.set(a, merged);
+    for (const node of second) routeOf[node] = a;
+    return true;
+  };
+
+  if (variant === 'parallel') {
+    for (const { i, j, value } of savings) {
+      if (value <= 0) break;
+      join(i, j);
+    }
+  } else {
+    // Customers already on a route that has been closed or is growing
+    const routed = new Set<number>();
+    let growing = -1;
+
+    for (;;) {
+      if (growing === -1) {
+        // Seed the next route with the best saving between two unrouted customers
+        const seed = savings.find(s => s.value > 0 && !routed.has(s.i) && !routed.has(s.j) && join(s.i, s.j));
+        if (!seed) break;
+        growing = routeOf[seed.i];
+        routed.add(seed.i);
+        routed.add(seed.j);
+        continue;
+      }
+
+      // Extend the growing route at either end with an unrouted customer
+      const extension = savings.find(s => {
+        if (s.value <= 0) return false;
+        if (routeOf[s.i] === growing && !routed.has(s.j)) return join(s.i, s.j);
+        if (routeOf[s.j] === growing && !routed.has(s.i)) return join(s.i, s.j);
+        return false;
+      });
+      if (extension) {
+        // The join keeps the route of i, which is not the growing one's key
+        // when the route was extended at its front
+        growing = routeOf[extension.i];
+        routed.add(extension.i);
+        routed.add(extension.j);
+      } else {
+        growing = -1;
+      }
+    }
+  }
+
+  // Too many routes for the fleet: make the cheapest remaining joins
+  if (routes.size > vehicles.length) {
+    for (const { i, j } of savings) {
+      if (routes.size <= vehicles.length) break;
+      join(i, j);
+    }
+  }
+  if (routes.size > vehicles.length) {
+    throw new Error(
+      `The savings heuristic needs ${routes.size} routes to respect capacity, but there are only ${vehicles.length} vehicles.`
+    );
+  }
+
+  // Heaviest route to the largest vehicle
+  const sequences = [...routes.values()].sort((a, b) => load(b) - load(a));
+  const fleet = [...vehicles].sort((a, b) => (b.capacity ?? Infinity) - (a.capacity ?? Infinity));
+
+  return sequences.map((sequence, k) => {
+    const vehicle = fleet[k];
+    if (load(sequence) > (vehicle.capacity ?? Infinity)) {
+      throw new Error(`No vehicle left can carry a route with load ${load(sequence)}.`);
+    }
+    const path = [0, ...sequence, 0];
+    let distance = 0;
+    for (let step = 1; step < path.length; step++) distance += d[path[step - 1]][path[step]];
+    return { vehicleId: vehicle.id, path, distance };
+  });
+}
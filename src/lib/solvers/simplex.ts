@@ -0,0 +1,162 @@
+export type LinearConstraint = {
+  coefficients: number[]; // One per variable; missing entries count as zero
+  sense: '<=' | '>=' | '=';
+  rhs: number;
+};
+
+export type LinearProgramResult =
+  | { status: 'optimal'; value: number; x: number[]; pivots: number }
+  | { status: 'infeasible' | 'unbounded'; pivots: number };
+
+const EPSILON = 1e-9;
+
+/** Degenerate pivots in a row before switching to Bland's rule */
+const DEGENERATE_LIMIT = 50;
+
+/**
+ * Minimizes a linear objective over x >= 0 with the two-phase simplex method
+ *
+ * Dense tableau: phase 1 finds a feasible basis by minimizing the sum of
+ * artificial variables, phase 2 optimizes the objective from there. Entering
+ * columns are chosen by the most negative reduced cost, switching to Bland's
+ * rule after a run of degenerate pivots so the method cannot cycle.
+ *
+ * @param objective Cost of each variable
+ * @param constraints Linear constraints
+ * @param maxPivots Pivot limit over both phases
+ * @returns The optimum, or whether the program is infeasible or unbounded
+ */
+export function solveLinearProgram(
+  objective: number[],
+  constraints: LinearConstraint[],
+  maxPivots: number = 100000
+): LinearProgramResult {
+  const n = objective.length;
+  const m = constraints.length;
+
+  // Rows with a non-negative right-hand side
+  const rows = constraints.map(constraint => {
+    if (constraint.rhs >= 0) return constraint;
+    const sense: LinearConstraint['sense'] = constraint.sense === '<=' ? '>=' : constraint.sense === '>=' ? '<=' : '=';
+    return { coefficients: constraint.coefficients.map(a => -a), sense, rhs: -constraint.rhs };
+  });
+
+  const slackCount = rows.filter(row => row.sense !== '=').length;
+  const artificialCount = rows.filter(row => row.sense !== '<=').length;
+  const firstArtificial = n + slackCount;
+  const width = firstArtificial + artificialCount;
+
+  const tableau = rows.map(() => new Float64Array(width + 1));
+  const basis = new Int32Array(m);
+  let slack = n;
+  let artificial = firstArtificial;
+  rows.forEach((row, r) => {
+    const entries = tableau[r];
+    row.coefficients.forEach((a, j) => { entries[j] = a; });
+    entries[width] = row.rhs;
+    if (row.sense === '<=') {
+      entries[slack] = 1;
+      basis[r] = slack++;
+    } else {
+      if (row.sense === '>=') entries[slack++] = -1;
+      entries[artificial] = 1;
+      basis[r] = artificial++;
+    }
+  });
+
+  let pivots = 0;
+  let cost = new Float64Array(width + 1);
+
+  const pivot = (r: number, column: number) => {
+    const pivotRow = tableau[r];
+    const element = pivotRow[column];
+    // Constraint rows are sparse, so only the pivot row's non-zero columns are updated
+    const nonZero: number[] = [];
+    for (let j = 0; j <= width; j++) {
+      if (pivotRow[j] === 0) continue;
+      pivotRow[j] /= element;
+      nonZero.push(j);
+    }
+    const update = (row: Float64Array) => {
+      const factor = row[column];
+      if (factor === 0) return;
+      for (const j of nonZero) row[j] -= factor * pivotRow[j];
+    };
+    tableau.forEach((row, i) => { if (i !== r) update(row); });
+    update(cost);
+    basis[r] = column;
+    pivots++;
+  };
+
+  // Reduced costs of a cost vector in the current basis; the last entry is minus the objective
+  const priceOut = (c: (j: number) => number) => {
+    cost = new Float64Array(width + 1);
+    for (let j = 0; j < width; j++) cost[j] = c(j);
+    for (let r = 0; r < m; r++) {
+      const cb = c(basis[r]);
+      if (cb === 0) continue;
+      for (let j = 0; j <= width; j++) cost[j] -= cb * tableau[r][j];
+    }
+  };
+
+  const optimize = (columns: number): 'optimal' | 'unbounded' => {
+    let degenerate = 0;
+    for (;;) {
+      if (pivots >= maxPivots) throw new Error(`The simplex method did not converge within ${maxPivots} pivots`);
+
+      let entering = -1;
+      for (let j = 0; j < columns; j++) {
+        if (cost[j] >= -EPSILON) continue;
+        if (entering === -1 || (degenerate < DEGENERATE_LIMIT && cost[j] < cost[entering])) entering = j;
+        if (degenerate >= DEGENERATE_LIMIT) break;
+      }
+      if (entering === -1) return 'optimal';
+
+      let leaving = -1;
+      let ratio = Infinity;
+      for (let r = 0; r < m; r++) {
+        const a = tableau[r][entering];
+        if (a <= EPSILON) continue;
+        const candidate = tableau[r][width] / a;
+        if (candidate < ratio - EPSILON || (candidate < ratio + EPSILON && leaving !== -1 && basis[r] < basis[leaving])) {
+          ratio = Math.min(ratio, candidate);
+          leaving = r;
+        }
+      }
+      if (leaving === -1) return 'unbounded';
+
+      degenerate = ratio < EPSILON ? degenerate + 1 : 0;
+      pivot(leaving, entering);
+    }
+  };
+
+  // Phase 1: drive the artificial variables to zero
+  if (artificialCount > 0) {
+    priceOut(j => (j >= firstArtificial ? 1 : 0));
+    optimize(width);
+    if (-cost[width] > 1e-7) return { status: 'infeasible', pivots };
+
+    // Pivot artificial variables left in the basis at zero out of it
+    for (let r = 0; r < m; r++) {
+      if (basis[r] < firstArtificial) continue;
+      for (let j = 0; j < firstArtificial; j++) {
+        if (Math.abs(tableau[r][j]) > EPSILON) {
+          pivot(r, j);
+          break;
+        }
+      }
+    }
+  }
+
+  // Phase 2: optimize the objective without letting artificial variables back in
+  priceOut(j => (j < n ? objective[j] : 0));
+  if (optimize(firstArtificial) === 'unbounded') return { status: 'unbounded', pivots };
+
+  const x = Array(n).fill(0);
+  for (let r = 0; r < m; r++) {
+    if (basis[r] < n) x[basis[r]] = tableau[r][width];
+  }
+  const value = x.reduce((sum, xj, j) => sum + objective[j] * xj, 0);
+
+  return { status: 'optimal', value, x, pivots };
+}
@@ -0,0 +1,390 @@
+import { DistanceMatrix, Node, Route, Vehicle, VRPProblem, VRPSolution } from './types';
+import { generateNodeCoordinates, scheduleRoute } from './quantum/qubo';
+import { layoutStress } from './layout';
+import { VEHICLE_COLORS } from './instances';
+
+/** TSPLIB's approximations of pi and the earth's radius in km, which the GEO distances depend on */
+const TSPLIB_PI = 3.141592;
+const EARTH_RADIUS = 6378.388;
+
+type TsplibFile = {
+  header: Map<string, string>; // KEY : value lines, keys upper-cased
+  sections: Map<string, number[][]>; // Numeric rows of each *_SECTION
+};
+
+/**
+ * Split a TSPLIB file into its specification lines and data sections
+ *
+ * @param text Contents of the file
+ * @returns The header values and the rows of each section
+ */
+function readTsplib(text: string): TsplibFile {
+  const header = new Map<string, string>();
+  const sections = new Map<string, number[][]>();
+  let section: number[][] | null = null;
+
+  const lines = text.split(/\r?\n/);
+  for (let k = 0; k < lines.length; k++) {
+    const line = lines[k].trim();
+    if (!line) continue;
+    if (line === 'EOF') break;
+
+    const sectionStart = line.match(/^([A-Z_]+_SECTION)\s*:?$/i);
+    if (sectionStart) {
+      section = [];
+      sections.set(sectionStart[1].toUpperCase(), section);
+      continue;
+    }
+
+    const specification = line.match(/^([A-Z_]+)\s*:\s*(.*)$/i);
+    if (specification) {
+      header.set(specification[1].toUpperCase(), specification[2].trim());
+      section = null;
+      continue;
+    }
+
+    const row = line.split(/\s+/).map(Number);
+    if (!section || row.some(value => !isFinite(value))) {
+      throw new Error(`Line ${k + 1} is not a specification or section data: "${line}".`);
+    }
+    section.push(row);
+  }
+
+  return { header, sections };
+}
+
+/**
+ * Rows of a per-node section, indexed by node
+ *
+ * @param rows Rows of the section, each a 1-based node number and its values
+ * @param dimension Number of nodes
+ * @param name Section name, for error messages
+ * @param width Values per node
+ * @returns The values of each node, node 1 first
+ */
+function nodeRows(rows: number[][], dimension: number, name: string, width: number): number[][] {
+  const values: number[][] = Array(dimension);
+  for (const [id, ...rest] of rows) {
+    if (!Number.isInteger(id) || id < 1 || id > dimension) {
+      throw new Error(`${name} refers to node ${id}, outside 1 to ${dimension}.`);
+    }
+    if (rest.length < width) throw new Error(`${name} has too few values for node ${id}.`);
+    values[id - 1] = rest.slice(0, width);
+  }
+  for (let i = 0; i < dimension; i++) {
+    if (!values[i]) throw new Error(`${name} has no entry for node ${i + 1}.`);
+  }
+  return values;
+}
+
+/**
+ * Expand an EDGE_WEIGHT_SECTION into a full matrix
+ *
+ * Column-wise formats list the same weights as the opposite row-wise ones,
+ * since the matrix they describe is symmetric.
+ *
+ * @param weights The weights in file order
+ * @param n Number of nodes
+ * @param format EDGE_WEIGHT_FORMAT
+ * @returns The distance matrix
+ */
+function explicitMatrix(weights: number[], n: number, format: string): DistanceMatrix {
+  const matrix = Array.from({ length: n }, () => Array(n).fill(0));
+  let k = 0;
+  const next = () => {
+    if (k >= weights.length) throw new Error(`EDGE_WEIGHT_SECTION is too short for a ${format} of ${n} nodes.`);
+    return weights[k++];
+  };
+  const setPair = (i: number, j: number) => {
+    const weight = next();
+    matrix[i][j] = weight;
+    matrix[j][i] = weight;
+  };
+
+  switch (format) {
+    case 'FULL_MATRIX':
+      for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) matrix[i][j] = next();
+      break;
+    case 'UPPER_ROW':
+    case 'LOWER_COL':
+      for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) setPair(i, j);
+      break;
+    case 'LOWER_ROW':
+    case 'UPPER_COL':
+      for (let i = 0; i < n; i++) for (let j = 0; j < i; j++) setPair(i, j);
+      break;
+    case 'UPPER_DIAG_ROW':
+    case 'LOWER_DIAG_COL':
+      for (let i = 0; i < n; i++) for (let j = i; j < n; j++) setPair(i, j);
+      break;
+    case 'LOWER_DIAG_ROW':
+    case 'UPPER_DIAG_COL':
+      for (let i = 0; i < n; i++) for (let j = 0; j <= i; j++) setPair(i, j);
+      break;
+    default:
+      throw new Error(`Unsupported EDGE_WEIGHT_FORMAT ${format}.`);
+  }
+
+  if (k !== weights.length) {
+    throw new Error(`EDGE_WEIGHT_SECTION has ${weights.length} weights; a ${format} of ${n} nodes has ${k}.`);
+  }
+  return matrix;
+}
+
+/**
+ * TSPLIB GEO coordinate in radians; the integer part is degrees and the
+ * fraction minutes
+ */
+function geoRadians(value: number): number {
+  const degrees = Math.trunc(value);
+  return TSPLIB_PI * (degrees + 5 * (value - degrees) / 3) / 180;
+}
+
+/**
+ * TSPLIB GEO distance in whole km between two (latitude, longitude) points
+ *
+ * @param a First point, DDD.MM
+ * @param b Second point, DDD.MM
+ * @returns The distance as TSPLIB rounds it
+ */
+function geoDistance(a: number[], b: number[]): number {
+  const [latA, lonA] = a.map(geoRadians);
+  const [latB, lonB] = b.map(geoRadians);
+  const q1 = Math.cos(lonA - lonB);
+  const q2 = Math.cos(latA - latB);
+  const q3 = Math.cos(latA + latB);
+  return Math.floor(EARTH_RADIUS * Math.acos(0.5 * ((1 + q1) * q2 - (1 - q1) * q3)) + 1);
+}
+
+/** TSPLIB's nearest-integer rounding */
+function nint(value: number): number {
+  return Math.floor(value + 0.5);
+}
+
+/**
+ * Parse a TSPLIB or CVRPLIB .vrp file
+ *
+ * Reads CVRP, TSP and ATSP files with EUC_2D, GEO or EXPLICIT edge weights,
+ * rounded as TSPLIB specifies so costs match published values. The fleet
+ * size is the VEHICLES entry, else the k in names like A-n32-k5, else the
+ * fewest vehicles the demand needs; a TSP gets one uncapacitated vehicle.
+ * Files without coordinates are laid out from the distances with MDS. The
+ * depot must be node 1, as in the Augerat and Christofides sets.
+ *
+ * @param text Contents of the file
+ * @returns The problem, node 0 the depot
+ */
+export function parseVRP(text: string): VRPProblem {
+  const { header, sections } = readTsplib(text);
+  const name = header.get('NAME');
+  const type = (header.get('TYPE') ?? 'CVRP').toUpperCase();
+  if (!['CVRP', 'TSP', 'ATSP'].includes(type)) {
+    throw new Error(`Unsupported problem TYPE ${type}; expected CVRP, TSP or ATSP.`);
+  }
+
+  const dimension = Number(header.get('DIMENSION'));
+  if (!Number.isInteger(dimension) || dimension < 2) {
+    throw new Error('DIMENSION must be a whole number of at least 2.');
+  }
+
+  const depots = (sections.get('DEPOT_SECTION') ?? []).flat();
+  const depotEnd = depots.indexOf(-1);
+  const depotIds = depotEnd === -1 ? depots : depots.slice(0, depotEnd);
+  if (depotIds.length > 1) throw new Error(`Only one depot is supported; the file lists ${depotIds.length}.`);
+  if (depotIds.length === 1 && depotIds[0] !== 1) throw new Error(`The depot must be node 1, not node ${depotIds[0]}.`);
+
+  const coordinateRows = sections.get('NODE_COORD_SECTION');
+  const coordinates = coordinateRows && nodeRows(coordinateRows, dimension, 'NODE_COORD_SECTION', 2);
+
+  // Edge weights, rounded the way TSPLIB defines each type
+  const weightType = (header.get('EDGE_WEIGHT_TYPE') ?? '').toUpperCase();
+  let distanceMatrix: DistanceMatrix;
+  switch (weightType) {
+    case 'EUC_2D':
+    case 'GEO': {
+      if (!coordinates) throw new Error(`EDGE_WEIGHT_TYPE ${weightType} needs a NODE_COORD_SECTION.`);
+      distanceMatrix = coordinates.map((a, i) => coordinates.map((b, j) => {
+        if (i === j) return 0;
+        return weightType === 'GEO' ? geoDistance(a, b) : nint(Math.hypot(a[0] - b[0], a[1] - b[1]));
+      }));
+      break;
+    }
+    case 'EXPLICIT': {
+      const weights = sections.get('EDGE_WEIGHT_SECTION');
+      if (!weights) throw new Error('EDGE_WEIGHT_TYPE EXPLICIT needs an EDGE_WEIGHT_SECTION.');
+      const format = (header.get('EDGE_WEIGHT_FORMAT') ?? '').toUpperCase();
+      distanceMatrix = explicitMatrix(weights.flat(), dimension, format);
+      break;
+    }
+    default:
+      throw new Error(`Unsupported EDGE_WEIGHT_TYPE ${weightType || '(missing)'}; expected EUC_2D, GEO or EXPLICIT.`);
+  }
+
+  // Where to draw the nodes: GEO coordinates with north up, display data, or an MDS layout
+  const displayRows = sections.get('DISPLAY_DATA_SECTION');
+  let points: { x: number; y: number }[];
+  let stress: number | undefined;
+  if (coordinates) {
+    points = coordinates.map(([x, y]) => weightType === 'GEO' ? { x: y, y: -x } : { x, y });
+  } else if (displayRows) {
+    points = nodeRows(displayRows, dimension, 'DISPLAY_DATA_SECTION', 2).map(([x, y]) => ({ x, y }));
+  } else {
+    points = generateNodeCoordinates(distanceMatrix);
+    stress = layoutStress(distanceMatrix, points);
+  }
+
+  const demandRows = sections.get('DEMAND_SECTION');
+  const demands = demandRows
+    ? nodeRows(demandRows, dimension, 'DEMAND_SECTION', 1).map(([demand]) => demand)
+    : Array(dimension).fill(0);
+
+  const nodes: Node[] = points.map((point, i) => ({
+    id: i,
+    x: point.x,
+    y: point.y,
+    label: i === 0 ? 'Depot' : `Node ${i}`,
+    demand: i === 0 ? 0 : demands[i]
+  }));
+
+  // Fleet: given, read from the name, or the fewest vehicles the demand needs
+  let capacity: number | undefined;
+  let numVehicles = 1;
+  if (type === 'CVRP') {
+    capacity = Number(header.get('CAPACITY'));
+    if (!(capacity > 0)) throw new Error('A CVRP file needs a positive CAPACITY.');
+    const totalDemand = demands.slice(1).reduce((sum, demand) => sum + demand, 0);
+    const fromName = name?.match(/-k(\d+)/i);
+    numVehicles = header.has('VEHICLES')
+      ? Number(header.get('VEHICLES'))
+      : fromName ? Number(fromName[1]) : Math.max(1, Math.ceil(totalDemand / capacity));
+    if (!Number.isInteger(numVehicles) || numVehicles < 1) throw new Error('VEHICLES must be a positive whole number.');
+  }
+
+  const vehicles: Vehicle[] = Array.from({ length: numVehicles }, (_, i) => ({
+    id: i,
+    capacity,
+    color: VEHICLE_COLORS[i % VEHICLE_COLORS.length]
+  }));
+
+  return { name, nodes, vehicles, distanceMatrix, layoutStress: stress };
+}
+
+/**
+ * Write a problem as a CVRPLIB .vrp file
+ *
+ * Problems whose distances are the rounded Euclidean distances between their
+ * coordinates are written as EUC_2D; any other matrix is written in full as
+ * EXPLICIT, with the coordinates as display data. TSPLIB has one capacity
+ * for the whole fleet, so mixed capacities are written as the largest, and
+ * it has no time windows; both are noted in the COMMENT.
+ *
+ * @param problem The VRP problem
+ * @returns Contents of the .vrp file
+ */
+export function writeVRP(problem: VRPProblem): string {
+  const { nodes, vehicles, distanceMatrix } = problem;
+  const n = nodes.length;
+  const demands = nodes.map(node => node.demand ?? 0);
+  const capacities = vehicles.map(vehicle => vehicle.capacity ?? Infinity);
+  const capacity = Math.max(...capacities);
+  const euclidean = distanceMatrix.every((row, i) =>
+    row.every((d, j) => d === (i === j ? 0 : nint(Math.hypot(nodes[i].x - nodes[j].x, nodes[i].y - nodes[j].y))))
+  );
+
+  const comments = ['Exported from Quantum Route Navigator'];
+  if (!isFinite(capacity)) comments.push('uncapacitated fleet, CAPACITY is the total demand');
+  else if (capacities.some(c => c !== capacity)) comments.push(`vehicle capacities ${capacities.join(' ')}, CAPACITY is the largest`);
+  if (problem.travelTimeMatrix || nodes.some(node => node.earliest !== undefined || node.latest !== undefined)) {
+    comments.push('travel times and time windows omitted');
+  }
+
+  const coordinateLines = nodes.map((node, i) => `${i + 1} ${node.x} ${node.y}`);
+  const lines = [
+    `NAME : ${problem.name ?? `QRN-n${n}-k${vehicles.length}`}`,
+    `COMMENT : ${comments.join('; ')}`,
+    'TYPE : CVRP',
+    `DIMENSION : ${n}`,
+    `VEHICLES : ${vehicles.length}`,
+    `CAPACITY : ${isFinite(capacity) ? capacity : Math.max(1, demands.reduce((sum, d) => sum + d, 0))}`,
+    ...(euclidean
+      ? ['EDGE_WEIGHT_TYPE : EUC_2D', 'NODE_COORD_SECTION', ...coordinateLines]
+      : [
+          'EDGE_WEIGHT_TYPE : EXPLICIT',
+          'EDGE_WEIGHT_FORMAT : FULL_MATRIX',
+          'DISPLAY_DATA_TYPE : TWOD_DISPLAY',
+          'EDGE_WEIGHT_SECTION',
+          ...distanceMatrix.map(row => row.join(' ')),
+          'DISPLAY_DATA_SECTION',
+          ...coordinateLines
+        ]),
+    'DEMAND_SECTION',
+    ...demands.map((demand, i) => `${i + 1} ${demand}`),
+    'DEPOT_SECTION',
+    '1',
+    '-1',
+    'EOF'
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a CVRPLIB .sol file against its instance
+ *
+ * Reads the "Route #k: c1 c2 ..." lines, where customers are numbered from 1
+ * with the depot left out, which matches node numbering here, and the
+ * reported cost. Every customer must be served exactly once.
+ *
+ * @param text Contents of the .sol file
+ * @param problem The instance the solution is for
+ * @returns The solution, its routes assigned to vehicles in file order
+ */
+export function parseSolution(text: string, problem: VRPProblem): VRPSolution {
+  const n = problem.nodes.length;
+  const tours: number[][] = [];
+  let reportedCost: number | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const route = line.match(/^Route\s*#?\s*\d+\s*:(.*)$/i);
+    if (route) {
+      const customers = route[1].trim().split(/\s+/).filter(Boolean).map(Number);
+      for (const customer of customers) {
+        if (!Number.isInteger(customer) || customer < 1 || customer >= n) {
+          throw new Error(`Route ${tours.length + 1} visits customer ${customer}, outside 1 to ${n - 1}.`);
+        }
+      }
+      if (customers.length) tours.push(customers);
+      continue;
+    }
+    const cost = line.match(/^Cost\s*:?\s*(\S+)/i);
+    if (cost && isFinite(Number(cost[1]))) reportedCost = Number(cost[1]);
+  }
+
+  if (!tours.length) throw new Error('No "Route #k:" lines found.');
+  if (tours.length > problem.vehicles.length) {
+    throw new Error(`The solution has ${tours.length} routes but the problem only ${problem.vehicles.length} vehicles; ` +
+      'set VEHICLES in the instance file.');
+  }
+
+  const visits = Array(n).fill(0);
+  tours.flat().forEach(customer => visits[customer]++);
+  for (let customer = 1; customer < n; customer++) {
+    if (visits[customer] !== 1) {
+      throw new Error(`Customer ${customer} is visited ${visits[customer]} times; every customer needs exactly one visit.`);
+    }
+  }
+
+  const routes: Route[] = tours.map((customers, r) => {
+    const path = [0, ...customers, 0];
+    const distance = path.slice(1).reduce((sum, node, k) => sum + problem.distanceMatrix[path[k]][node], 0);
+    return scheduleRoute({ vehicleId: problem.vehicles[r].id, path, distance }, problem);
+  });
+
+  return {
+    routes,
+    totalDistance: routes.reduce((sum, route) => sum + route.distance, 0),
+    executionTime: 0,
+    solver: 'classical',
+    algorithm: reportedCost !== undefined ? `Best known (reported cost ${reportedCost})` : 'Best known'
+  };
+}
@@ -4,6 +4,10 @@ export type Node = {
   x: number;
   y: number;
   label?: string;
+  demand?: number; // Units to deliver; 0 for the depot
+  earliest?: number; // Start of the time window; service cannot begin earlier
+  latest?: number; // End of the time window; service beginning later is late
+  serviceTime?: number; // Time spent at the node
 };
 
 export type Vehicle = {
@@ -12,20 +16,100 @@ export type Vehicle = {
   color: string;
 };
 
+export type StopTime = {
+  node: number;
+  arrival: number;
+  departure: number;
+  waiting: number; // Idle time before the time window opens
+  lateness: number; // How far past the time window service began
+};
+
 export type Route = {
   vehicleId: number;
   path: number[];
   distance: number;
+  schedule?: StopTime[]; // One entry per path position
+  waitingTime?: number;
+  lateness?: number;
 };
 
 export type DistanceMatrix = number[][];
 
-export type QuboMatrix = number[][];
+// Sparse QUBO in upper-triangular form: (i, j) with i <= j maps to its weight,
+// keyed by i * numVars + j. E(x) = sum over terms of weight * x_i * x_j
+export type SparseQubo = {
+  numVars: number;
+  terms: Map<number, number>;
+};
+
+export type IsingCoupling = {
+  i: number;
+  j: number;
+  value: number;
+};
+
+// E(z) = offset + sum_i h_i z_i + sum_{i<j} J_ij z_i z_j, z_i = +1 for bit 0 and -1 for bit 1
+export type IsingModel = {
+  h: number[];
+  J: IsingCoupling[];
+  offset: number;
+};
+
+// random-matrix: independent random edge lengths; the others place customers on a square and
+// measure Euclidean distances (uniform, Gaussian clusters, or half of each)
+export type CustomerLayout = 'random-matrix' | 'uniform' | 'clustered' | 'mixed';
+
+// Where the depot sits on the square, after CVRPLIB's X instances: random, central or eccentric
+export type DepotPlacement = 'random' | 'center' | 'edge';
+
+// How distances between latitude/longitude sites are measured
+export type GeoMetric = 'haversine' | 'equirectangular' | 'manhattan';
 
 export type VRPProblem = {
+  name?: string; // Instance name, for problems loaded from a file
   nodes: Node[];
   vehicles: Vehicle[];
   distanceMatrix: DistanceMatrix;
+  travelTimeMatrix?: DistanceMatrix; // Defaults to the distances
+  seed?: number; // Seed the problem was generated from
+  layoutStress?: number; // Kruskal stress of coordinates embedded from the distance matrix
+  bestKnown?: { distance: number; vehicles: number }; // Published best-known cost of a benchmark instance
+};
+
+export type SampleRecord = {
+  bitstring: string; // Qiskit ordering, qubit 0 rightmost
+  count: number;
+  energy: number; // QUBO energy
+  isingEnergy: number; // Ising energy of the same configuration, equal to the QUBO energy
+  feasible: boolean; // Decodes to routes visiting every node exactly once within capacity
+  distance: number; // Total distance of the decoded routes
+};
+
+export type QuantumMetrics = {
+  source: 'simulated' | 'imported'; // Simulated in the app, or counts from an external run
+  encoding: EncodingType;
+  numQubits: number; // Qubits of the circuit the metrics describe; stage 1 for the two-stage encoding
+  routingQubits?: number[]; // Two-stage encoding: qubits of each vehicle's stage 2 circuit
+  penaltyStrategy?: PenaltyStrategy; // Unknown for imported counts
+  penalties: PenaltyWeights; // Penalty coefficient of each constraint family in the QUBO
+  penaltySweep?: { scale: number; feasibleFraction: number; chosen: boolean }[]; // Multiples of the max-edge bound scored by the sweep strategy
+  sampler?: SamplerType; // What drew the samples; QAOA if absent
+  backend?: BackendType; // Unknown for imported counts
+  noisy: boolean; // Sampled through the backend's noise model
+  anneal?: { schedule: AnnealSchedule; trotterSlices: number; sweeps: number }; // Set for annealer backends
+  optimizer?: OptimizerType; // Unknown for imported counts
+  gammas: number[]; // Optimized cost angles, one per layer
+  betas: number[]; // Optimized mixer angles, one per layer
+  iterations: number;
+  evaluations: number;
+  convergence: { iteration: number; energy: number }[]; // <H_C> after each optimizer iteration
+  layerExpectations: { layer: number; energy: number }[]; // Ideal <H_C> after each layer of the tuned circuit
+  topSamples: SampleRecord[]; // Most frequent measured bitstrings
+  bestEnergy: number;
+  meanEnergy: number;
+  cvarEnergy: number; // Mean energy of the lowest cvarAlpha fraction of shots
+  cvarAlpha: number;
+  feasibleFraction: number; // Fraction of shots that decode to feasible routes
 };
 
 export type VRPSolution = {
@@ -33,12 +117,104 @@ export type VRPSolution = {
   totalDistance: number;
   executionTime: number;
   solver: 'quantum' | 'classical';
+  algorithm?: string; // Name of the classical method
+  feasible?: boolean; // False when no sample decoded to valid routes and the best infeasible one is reported
+  quantumMetrics?: QuantumMetrics;
+  localSearch?: LocalSearchReport;
+  metaheuristic?: MetaheuristicReport;
+  exact?: ExactReport;
+  seed?: number; // Seed of the solver's random source; absent if it used none
 };
 
-export type BackendType = 'qasm_simulator' | 'aer_simulator' | 'ibmq_lima' | 'ibmq_belem' | 'ibmq_quito';
+// Gate-model backends run the QAOA circuit; annealer backends anneal the Ising form of the QUBO
+export type GateBackend = 'qasm_simulator' | 'aer_simulator' | 'ibmq_lima' | 'ibmq_belem' | 'ibmq_quito';
+export type AnnealerBackend = 'sqa_simulator';
+export type BackendType = GateBackend | AnnealerBackend;
+
+// How the transverse field falls over an anneal
+export type AnnealSchedule = 'linear' | 'quadratic' | 'pause';
+
+export type OptimizerType = 'cobyla' | 'nelder-mead' | 'spsa';
+
+// edge: x_{i,j,v}; position: x_{v,c,t}; two-stage: x_{c,v} assignment, then x_{c,t} per vehicle
+export type EncodingType = 'edge' | 'position' | 'two-stage';
+
+// visit: every customer served exactly once; flow: each vehicle's route holds together;
+// capacity: no vehicle carries more than its capacity
+export type PenaltyFamily = 'visit' | 'flow' | 'capacity';
+
+export type PenaltyWeights = Record<PenaltyFamily, number>;
+
+// fixed: a set coefficient; max-edge: a bound from the largest distance; sweep: best feasibility rate
+export type PenaltyStrategy = 'fixed' | 'max-edge' | 'sweep';
 
 export type QAOAParams = {
   p: number; // Number of QAOA layers
   backend: BackendType;
   shots: number;
+  optimizer: OptimizerType;
+  encoding: EncodingType;
+  penaltyStrategy: PenaltyStrategy;
+  penalty: number; // Coefficient for the fixed strategy
+  penaltyMultipliers: PenaltyWeights; // Relative weight of each constraint family
+  maxIterations: number;
+  tolerance: number;
+  sampler: SamplerType; // QAOA, or a classical sampler on the same QUBO
+  sweeps: number; // Monte Carlo sweeps per read for the classical samplers and the annealer
+  annealSchedule: AnnealSchedule;
+  trotterSlices: number; // Imaginary-time slices of the path-integral annealer
+  seed: number; // Seed for penalty sweeps, angle tuning and sampling
+};
+
+export type SamplerType = 'qaoa' | 'annealing' | 'tempering' | 'greedy';
+
+export type ConstructionMethod = 'greedy' | 'savings-parallel' | 'savings-sequential';
+
+export type LocalSearchOperator = '2-opt' | 'or-opt' | 'relocate' | 'swap' | 'cross';
+
+export type LocalSearchReport = {
+  initialDistance: number;
+  finalDistance: number;
+  executionTime: number;
+  operators: { operator: LocalSearchOperator; moves: number; saving: number }[];
+};
+
+export type MetaheuristicType = 'none' | 'annealing' | 'tabu' | 'alns';
+
+export type MetaheuristicReport = {
+  method: Exclude<MetaheuristicType, 'none'>;
+  seed: number;
+  iterations: number;
+  elapsed: number; // ms
+  stoppedBy: 'iterations' | 'time';
+  trace: { iteration: number; time: number; distance: number }[]; // Each new best solution
+  operatorWeights?: { operator: string; weight: number }[]; // ALNS destroy and repair weights at the end
+};
+
+export type ExactReport = {
+  method: 'held-karp' | 'set-partitioning';
+  states: number; // Held–Karp (customer set, last customer) states expanded
+  routes: number; // Customer sets a single vehicle can serve, each priced as a route
+  nodes: number; // Branch-and-bound nodes explored
+  pruned: number; // Branch-and-bound nodes cut off by the bound
+  timeWindowsRelaxed: boolean; // Time windows were ignored, so the optimum is a lower bound
+};
+
+export type LowerBoundMethod = 'one-tree' | 'assignment' | 'lp';
+
+export type LowerBound = {
+  method: LowerBoundMethod;
+  value: number;
+  executionTime: number;
+  note?: string; // How the bound was reached, e.g. cuts added or subgradient steps
+};
+
+export type ClassicalParams = {
+  construction: ConstructionMethod;
+  metaheuristic: MetaheuristicType;
+  timeLimit: number; // Seconds
+  maxIterations: number;
+  seed: number;
+  localSearch: boolean; // Improve the classical solution
+  polishQuantum: boolean; // Improve the quantum solution with the same local search
 };
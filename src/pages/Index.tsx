@@ -1,39 +1,112 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import Header from '@/components/Header';
 import ProblemInput from '@/components/ProblemInput';
 import RouteVisualization from '@/components/RouteVisualization';
 import ResultsPanel from '@/components/ResultsPanel';
+import CircuitExportDialog from '@/components/CircuitExportDialog';
+import CountsImportDialog from '@/components/CountsImportDialog';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { QAOAParams, VRPProblem, VRPSolution } from '@/lib/types';
-import { solveVRPWithQAOA } from '@/lib/quantum/qaoa';
-import { solveVRPClassical } from '@/lib/solvers/classical';
+import { ClassicalParams, LowerBound, PenaltyFamily, QAOAParams, VRPProblem, VRPSolution } from '@/lib/types';
+import { solveVRPWithQAOA, defaultQAOAParams, presetPenalties } from '@/lib/quantum/qaoa';
+import { DEFAULT_PENALTY, PENALTY_FAMILIES, PENALTY_STRATEGIES, uniformPenalties } from '@/lib/quantum/penalties';
+import { quboStats } from '@/lib/quantum/qubo';
+import { encodeProblem, qubitCounts } from '@/lib/quantum/encodings';
+import { MAX_STATEVECTOR_QUBITS } from '@/lib/quantum/statevector';
+import { solveVRPClassical, defaultClassicalParams } from '@/lib/solvers/classical';
+import { improveSolution } from '@/lib/solvers/localSearch';
+import { solveVRPExact, MAX_EXACT_NODES } from '@/lib/solvers/exact';
+import { computeLowerBounds } from '@/lib/solvers/bounds';
 import { toast } from '@/components/ui/use-toast';
 import { PlayIcon, AtomIcon, Calculator } from 'lucide-react';
 
+/** Largest QUBO, in qubits, whose size is worked out for the summary */
+const MAX_SUMMARY_QUBITS = 1000;
+
 const Index = () => {
   const [problem, setProblem] = useState<VRPProblem | undefined>();
-  const [qaoaParams, setQaoaParams] = useState<QAOAParams>({
-    p: 1,
-    backend: 'qasm_simulator',
-    shots: 1000
-  });
+  const [qaoaParams, setQaoaParams] = useState<QAOAParams>(defaultQAOAParams);
+  const [classicalParams, setClassicalParams] = useState<ClassicalParams>(defaultClassicalParams);
   const [quantumSolution, setQuantumSolution] = useState<VRPSolution | undefined>();
   const [classicalSolution, setClassicalSolution] = useState<VRPSolution | undefined>();
+  const [optimum, setOptimum] = useState<VRPSolution | undefined>();
+  const [lowerBounds, setLowerBounds] = useState<LowerBound[] | undefined>();
+  const [bestKnown, setBestKnown] = useState<VRPSolution | undefined>();
   const [isLoading, setIsLoading] = useState(false);
   const [activeSolver, setActiveSolver] = useState<'quantum' | 'classical' | 'both' | null>(null);
+  
+  // The latest problem, so background results for a replaced one can be dropped
+  const currentProblem = useRef<VRPProblem | undefined>();
+
+  // Size of the QUBO in the selected encoding, the qubits every encoding needs and
+  // the penalties the next run will use; the sweep only picks them when solving,
+  // so for it the last run's choice is shown
+  const quboSummary = useMemo(() => {
+    if (!problem) return null;
+    const counts = qubitCounts(problem);
+    const metrics = quantumSolution?.quantumMetrics;
+    const penalties = qaoaParams.penaltyStrategy !== 'sweep'
+      ? presetPenalties(problem, qaoaParams)
+      : metrics?.encoding === qaoaParams.encoding ? metrics.penalties : null;
+    // Benchmark instances give QUBOs far too large to build on every change
+    const selectedQubits = qaoaParams.encoding === 'edge'
+      ? counts.edge
+      : qaoaParams.encoding === 'position' ? counts.position : counts.assignment;
+    if (selectedQubits > MAX_SUMMARY_QUBITS) return { qubo: null, qubitCounts: counts, penalties };
+    const encoded = encodeProblem(problem, qaoaParams.encoding, penalties ?? uniformPenalties(DEFAULT_PENALTY));
+    return {
+      qubo: { ...quboStats(encoded.qubo), numQubits: encoded.variables.length },
+      qubitCounts: counts,
+      penalties
+    };
+  }, [problem, qaoaParams, quantumSolution]);
+
+  // Qubit count styled by whether it is the selected encoding and fits the simulator
+  const qubitCount = (count: number, selected: boolean) => (
+    <span className={`${selected ? 'font-semibold' : ''} ${count > MAX_STATEVECTOR_QUBITS ? 'text-destructive' : ''}`}>
+      {count}
+    </span>
+  );
 
   // Handle problem generation
   const handleProblemGenerated = (newProblem: VRPProblem) => {
+    currentProblem.current = newProblem;
     setProblem(newProblem);
     setQuantumSolution(undefined);
     setClassicalSolution(undefined);
+    setOptimum(undefined);
+    setLowerBounds(undefined);
+    setBestKnown(undefined);
     setActiveSolver(null);
+    
+    // Small problems are solved exactly up front so every solution gets an optimality gap;
+    // larger ones only get a gap to the best lower bound. Either may finish after the
+    // problem has been replaced, and is then ignored
+    const isCurrent = () => currentProblem.current === newProblem;
+    if (newProblem.nodes.length <= MAX_EXACT_NODES) {
+      solveVRPExact(newProblem)
+        .then(solution => { if (isCurrent()) setOptimum(solution); })
+        .catch(error => console.error('Error in exact solver:', error));
+    }
+    computeLowerBounds(newProblem)
+      .then(bounds => { if (isCurrent()) setLowerBounds(bounds); })
+      .catch(error => console.error('Error computing lower bounds:', error));
+    
     toast({
-      title: "Problem Generated",
-      description: `Created a VRP with ${newProblem.nodes.length} nodes and ${newProblem.vehicles.length} vehicles.`,
+      title: newProblem.name ? "Problem Loaded" : "Problem Generated",
+      description: `${newProblem.name ? `Loaded ${newProblem.name}` : 'Created a VRP'} with ${newProblem.nodes.length} nodes and ${newProblem.vehicles.length} vehicles` +
+        (newProblem.vehicles[0]?.capacity ? ` of capacity ${newProblem.vehicles[0].capacity}.` : '.'),
+    });
+  };
+
+  // A best-known solution read from a file becomes the gap reference
+  const handleBestKnownLoaded = (solution: VRPSolution) => {
+    setBestKnown(solution);
+    toast({
+      title: "Best-Known Solution Loaded",
+      description: `${solution.routes.length} routes with total distance: ${solution.totalDistance.toFixed(2)}`,
     });
   };
 
@@ -42,6 +115,28 @@ const Index = () => {
     setQaoaParams(params);
   };
 
+  // Handle classical parameter changes
+  const handleClassicalParamsChange = (params: ClassicalParams) => {
+    setClassicalParams(params);
+  };
+
+  // Hybrid mode: polish the quantum routes with classical local search
+  const polishQuantum = (solution: VRPSolution) =>
+    classicalParams.polishQuantum ? improveSolution(solution, problem) : solution;
+
+  // Use counts measured outside the app as the quantum solution
+  const handleCountsImported = (imported: VRPSolution) => {
+    const solution = polishQuantum(imported);
+    setQuantumSolution(solution);
+    setActiveSolver('quantum');
+    toast({
+      title: "Counts Imported",
+      description: solution.feasible === false
+        ? "No bitstring decoded to a feasible solution."
+        : `Best decoded routes have total distance: ${solution.totalDistance.toFixed(2)}`,
+    });
+  };
+
   // Solve using quantum approach (QAOA)
   const solveWithQuantum = async () => {
     if (!problem) return;
@@ -50,18 +145,20 @@ const Index = () => {
     setActiveSolver('quantum');
     
     try {
-      const solution = await solveVRPWithQAOA(problem, qaoaParams);
+      const solution = polishQuantum(await solveVRPWithQAOA(problem, qaoaParams));
       setQuantumSolution(solution);
       toast({
         title: "Quantum Solution Ready",
-        description: `Found routes with total distance: ${solution.totalDistance.toFixed(2)}`,
+        description: solution.feasible === false
+          ? "No sample decoded to a feasible solution."
+          : `Found routes with total distance: ${solution.totalDistance.toFixed(2)}`,
       });
     } catch (error) {
       console.error('Error in quantum solver:', error);
       toast({
         variant: "destructive",
         title: "Quantum Solver Error",
-        description: "Failed to compute the quantum solution.",
+        description: error instanceof Error ? error.message : "Failed to compute the quantum solution.",
       });
     } finally {
       setIsLoading(false);
@@ -76,7 +173,7 @@ const Index = () => {
     setActiveSolver('classical');
     
     try {
-      const solution = await solveVRPClassical(problem);
+      const solution = await solveVRPClassical(problem, classicalParams, setClassicalSolution);
       setClassicalSolution(solution);
       toast({
         title: "Classical Solution Ready",
@@ -87,7 +184,7 @@ const Index = () => {
       toast({
         variant: "destructive",
         title: "Classical Solver Error",
-        description: "Failed to compute the classical solution.",
+        description: error instanceof Error ? error.message : "Failed to compute the classical solution.",
       });
     } finally {
       setIsLoading(false);
@@ -102,10 +199,11 @@ const Index = () => {
     setActiveSolver('both');
     
     try {
-      const [quantumSol, classicalSol] = await Promise.all([
+      const [rawQuantumSol, classicalSol] = await Promise.all([
         solveVRPWithQAOA(problem, qaoaParams),
-        solveVRPClassical(problem)
+        solveVRPClassical(problem, classicalParams, setClassicalSolution)
       ]);
+      const quantumSol = polishQuantum(rawQuantumSol);
       
       setQuantumSolution(quantumSol);
       setClassicalSolution(classicalSol);
@@ -116,14 +214,16 @@ const Index = () => {
       
       toast({
         title: "Solutions Ready",
-        description: `${betterSolution} solution found shorter routes.`,
+        description: quantumSol.feasible === false
+          ? "The quantum solver found no feasible solution."
+          : `${betterSolution} solution found shorter routes.`,
       });
     } catch (error) {
       console.error('Error solving problem:', error);
       toast({
         variant: "destructive",
         title: "Solver Error",
-        description: "Failed to compute one or both solutions.",
+        description: error instanceof Error ? error.message : "Failed to compute one or both solutions.",
       });
     } finally {
       setIsLoading(false);
@@ -139,8 +239,11 @@ const Index = () => {
           {/* Left sidebar with problem setup */}
           <div className="space-y-4">
             <ProblemInput 
+              problem={problem}
               onProblemGenerated={handleProblemGenerated} 
+              onBestKnownLoaded={handleBestKnownLoaded}
               onQAOAParamsChange={handleQAOAParamsChange}
+              onClassicalParamsChange={handleClassicalParamsChange}
               isLoading={isLoading}
             />
             
@@ -175,6 +278,49 @@ const Index = () => {
                   <PlayIcon className="w-4 h-4" />
                   <span>Compare Both Approaches</span>
                 </Button>
+                
+                <CircuitExportDialog
+                  problem={problem}
+                  qaoaParams={qaoaParams}
+                  quantumSolution={quantumSolution}
+                  disabled={isLoading}
+                />
+                
+                <CountsImportDialog
+                  problem={problem}
+                  qaoaParams={qaoaParams}
+                  quantumSolution={quantumSolution}
+                  onImport={handleCountsImported}
+                  disabled={isLoading}
+                />
+                
+                {quboSummary?.qubo && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    QUBO: {quboSummary.qubo.numVars.toLocaleString()} variables ({quboSummary.qubo.numQubits} qubits),{' '}
+                    {quboSummary.qubo.numTerms.toLocaleString()} non-zero terms ({(quboSummary.qubo.density * 100).toFixed(1)}% dense)
+                  </p>
+                )}
+                
+                {quboSummary && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Qubits by encoding: edge {qubitCount(quboSummary.qubitCounts.edge, qaoaParams.encoding === 'edge')},
+                    {' '}position {qubitCount(quboSummary.qubitCounts.position, qaoaParams.encoding === 'position')},
+                    {' '}two-stage {qubitCount(quboSummary.qubitCounts.assignment, qaoaParams.encoding === 'two-stage')}
+                    {' '}+ ~{qubitCount(quboSummary.qubitCounts.routing, qaoaParams.encoding === 'two-stage')} per vehicle
+                    {' '}(simulator limit {MAX_STATEVECTOR_QUBITS})
+                  </p>
+                )}
+                
+                {quboSummary && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Penalties ({PENALTY_STRATEGIES[qaoaParams.penaltyStrategy].toLowerCase()}):{' '}
+                    {quboSummary.penalties
+                      ? (Object.keys(PENALTY_FAMILIES) as PenaltyFamily[])
+                          .map(family => `${PENALTY_FAMILIES[family].toLowerCase()} ${quboSummary.penalties[family].toFixed(1)}`)
+                          .join(', ')
+                      : 'chosen when solving'}
+                  </p>
+                )}
               </div>
             </Card>
             
@@ -199,6 +345,9 @@ const Index = () => {
               problem={problem}
               quantumSolution={quantumSolution}
               classicalSolution={classicalSolution}
+              optimum={optimum}
+              lowerBounds={lowerBounds}
+              bestKnown={bestKnown}
               qaoaParams={qaoaParams}
               isLoading={isLoading}
             />